@@ -9,6 +9,7 @@ import CustomizeCommands from './examples/CustomizeCommands';
 import ImageUpload from './examples/ImageUpload';
 import SaveIndentOnLineBreak from './examples/SaveIndentOnLineBreak';
 import CommandArgs from './examples/CommandArgs';
+import Snippets from './examples/Snippets';
 
 function App() {
     return (
@@ -31,6 +32,8 @@ function App() {
             <SaveIndentOnLineBreak />
             <h2>CommandArgs</h2>
             <CommandArgs />
+            <h2>Snippets</h2>
+            <Snippets />
         </Fragment>
     );
 }
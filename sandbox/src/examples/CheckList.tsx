@@ -1,11 +1,5 @@
 import React, { useRef, useState } from 'react';
-import TextareaMarkdown, { CommandHandler, TextareaMarkdownRef } from 'textarea-markdown-editor';
-
-const checklistHandler: CommandHandler = ({ cursor }) => {
-    cursor.replaceCurrentLines((line) => `- [] ${line.text.replace('- []', '')}`, {
-        selectReplaced: Boolean(cursor.selection),
-    });
-};
+import TextareaMarkdown, { TextareaMarkdownRef } from 'textarea-markdown-editor';
 
 function App() {
     const [value, setValue] = useState('');
@@ -14,15 +8,10 @@ function App() {
     return (
         <div>
             <div>
-                <button onClick={() => mdRef.current?.trigger('checklist')}>checklist</button>
+                <button onClick={() => mdRef.current?.trigger('task-list')}>checklist</button>
+                <button onClick={() => mdRef.current?.trigger('toggle-task')}>check</button>
             </div>
-            <TextareaMarkdown
-                ref={mdRef}
-                options={{ customPrefixWrapping: ['- [] '] }}
-                value={value}
-                onChange={(e) => setValue(e.target.value)}
-                commands={[{ name: 'checklist', handler: checklistHandler }]}
-            />
+            <TextareaMarkdown ref={mdRef} value={value} onChange={(e) => setValue(e.target.value)} />
         </div>
     );
 }
@@ -15,21 +15,30 @@ function App() {
 
             const handler = async () => {
                 Array.from(input.files ?? []).forEach(async (file) => {
-                    if (cursor.position.line.text) {
-                        cursor.insert('\n'); // wrap to next line if some line is not empty
-                    }
                     const loadingPlaceholder = `[uploading (${file.name})...]`;
-                    cursor.insert('\n' + loadingPlaceholder + '\n');
+
+                    // both inserts are reverted by a single undo
+                    cursor.transaction((tx) => {
+                        const { cursorAt, line } = cursor.position;
+                        if (line.text) {
+                            tx.insert(cursorAt, '\n'); // wrap to next line if some line is not empty
+                        }
+                        tx.insert(cursorAt, '\n' + loadingPlaceholder + '\n' + Cursor.MARKER);
+                    });
 
                     await sleep(2000); // place to send upload request to you API
                     const resultUrl = URL.createObjectURL(file); // for academic purpose create URL from blob
 
-                    cursor.setValue(
-                        cursor.value.replace(
-                            loadingPlaceholder,
-                            `![${Cursor.MARKER}${file.name}${Cursor.MARKER}](${resultUrl})`,
-                        ),
-                    );
+                    const placeholderAt = cursor.value.indexOf(loadingPlaceholder);
+                    if (placeholderAt !== -1) {
+                        cursor.transaction((tx) => {
+                            tx.replace(
+                                placeholderAt,
+                                placeholderAt + loadingPlaceholder.length,
+                                `![${Cursor.MARKER}${file.name}${Cursor.MARKER}](${resultUrl})`,
+                            );
+                        });
+                    }
                 });
             };
 
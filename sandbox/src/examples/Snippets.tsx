@@ -0,0 +1,35 @@
+import React, { useRef, useState } from 'react';
+import TextareaMarkdown, { CommandHandler, TextareaMarkdownRef } from 'textarea-markdown-editor';
+
+const linkSnippetHandler: CommandHandler = ({ cursor }) => {
+    cursor.insertSnippet('[${1:text}](${2:https://}) $0');
+};
+
+const tableSnippetHandler: CommandHandler = ({ cursor }) => {
+    cursor.insertSnippet('| ${1:column} | ${2:column} |\n| --- | --- |\n| ${3:cell} | ${4:cell} |\n$0');
+};
+
+function App() {
+    const [value, setValue] = useState('');
+    const mdRef = useRef<TextareaMarkdownRef>(null);
+
+    return (
+        <div>
+            <div>
+                <button onClick={() => mdRef.current?.trigger('link-snippet')}>link</button>
+                <button onClick={() => mdRef.current?.trigger('table-snippet')}>table</button>
+            </div>
+            <TextareaMarkdown
+                ref={mdRef}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                commands={[
+                    { name: 'link-snippet', handler: linkSnippetHandler },
+                    { name: 'table-snippet', handler: tableSnippetHandler },
+                ]}
+            />
+        </div>
+    );
+}
+
+export default App;
@@ -1,6 +1,16 @@
-import { isBtwOrEq, fireInput } from './utils';
+import { clamp, diffRange, findLast } from './utils';
+import { SelectionDirectionType, TextareaBuffer, TextBuffer, toTextBuffer } from './TextBuffer';
+import { Line, LineEnding, LineIndex } from './LineIndex';
+import { expandReplacement, findMatches, SearchMatch, SearchPattern, SearchReplacer } from './search';
+import { parseSnippet, SnippetTabStop } from './snippet';
+import { getHistory } from './history';
+import { CaretRect, measureRange } from './caret';
+import { getMarkdownContext, MarkdownContext } from './context';
+import { getExpansionRanges, wordRangeAt } from './expand';
+import { snapRangeToGraphemes, snapToGrapheme } from './graphemes';
+import { getListIndentEdits, getListRenumberEdits } from './lists';
 
-export type SelectionDirectionType = 'backward' | 'forward' | 'none';
+export type { SelectionDirectionType, Line, LineEnding, CaretRect };
 
 export type Selection = {
     /**
@@ -14,7 +24,7 @@ export type Selection = {
     selectionDirection: SelectionDirectionType;
 };
 
-type SelectRange = {
+export type SelectRange = {
     start: number;
     end: number;
 };
@@ -24,19 +34,6 @@ type SelectRelative = {
     fromCurrentEnd: number;
 };
 
-export type Line = {
-    text: string;
-    lineNumber: number;
-
-    /** Index of the first character of the string */
-    startsAt: number;
-
-    /**
-     * Index of the and of the line (includes the characters up to)
-     * */
-    endsAt: number;
-};
-
 export type Position = {
     line: Line;
 
@@ -44,6 +41,16 @@ export type Position = {
     cursorAt: number;
 };
 
+export type Transaction = {
+    /** Replace `[start, end)` range of the value before the transaction */
+    replace(start: number, end: number, text: string): Transaction;
+    insert(position: number, text: string): Transaction;
+    delete(start: number, end: number): Transaction;
+
+    /** Select range of the value before the transaction, will be mapped after the edits */
+    select(start: number, end?: number): Transaction;
+};
+
 export type WrapOptions = {
     unwrap?: boolean;
     placeholder?: string;
@@ -52,62 +59,95 @@ export type WrapOptions = {
 type Marker = string & { __brand: 'Cursor marker' };
 const MARKER = `\u0000` as Marker;
 
+/** Replacement of the `[start, end)` range, `text` can contain markers to define a selection */
+type Edit = {
+    start: number;
+    end: number;
+    text: string;
+};
+
+type MultiSelection = {
+    /** value for which ranges were computed */
+    value: string;
+    ranges: SelectRange[];
+    /** index of the range that mirrors the native selection */
+    primary: number;
+};
+
 /**
- * Util for manipulation with textarea content and text selection
+ * Additional selection ranges are shared between all Cursor instances of the same buffer.
+ * They stay valid only while the value and the native selection are unchanged
+ */
+const multiSelections = new WeakMap<TextBuffer, MultiSelection>();
+
+/** Line indexes are shared between all Cursor instances of the same buffer as well */
+const lineIndexes = new WeakMap<TextBuffer, LineIndex>();
+
+type SnippetSession = {
+    /** value for which tab stops were computed */
+    value: string;
+
+    /** tab stops with absolute ranges */
+    tabStops: SnippetTabStop[];
+    current: number;
+};
+
+const snippetSessions = new WeakMap<TextBuffer, SnippetSession>();
+
+type SelectionExpansion = {
+    /** value and selection for which the expansion was made */
+    value: string;
+    current: SelectRange;
+
+    /** selections before each expansion */
+    previous: SelectRange[];
+};
+
+const selectionExpansions = new WeakMap<TextBuffer, SelectionExpansion>();
+
+/**
+ * Util for manipulation with textarea (or any other text buffer) content and text selection
  */
 export class Cursor {
     public static MARKER = MARKER;
     public MARKER: typeof MARKER;
 
-    public constructor(private element: HTMLTextAreaElement) {
+    private buffer: TextBuffer;
+
+    public constructor(target: HTMLTextAreaElement | HTMLInputElement | TextBuffer) {
         this.MARKER = MARKER;
+        this.buffer = toTextBuffer(target);
     }
 
     public get value() {
-        return this.element.value;
+        return this.buffer.value;
+    }
+
+    /** Underlying element, `null` if cursor works with non-DOM text buffer */
+    private get element() {
+        return this.buffer instanceof TextareaBuffer ? this.buffer.element : null;
     }
 
     /** @returns {Line[]} information about each line of text */
     public get lines(): Line[] {
-        let currentLength = 0;
-        return this.value.split('\n').reduce<Line[]>((lines, content, index, arr) => {
-            const lineNumber = index + 1;
-            const isLastLine = index === arr.length - 1;
-            const lineLength = content.length + Number(!isLastLine);
-
-            const startsAt = currentLength;
-            const endsAt = startsAt + lineLength - Number(!isLastLine);
-
-            currentLength += lineLength;
-
-            lines.push({
-                text: content,
-                lineNumber,
-                startsAt,
-                endsAt,
-            });
+        return this.lineIndex.lines;
+    }
 
-            return lines;
-        }, []);
+    /**
+     * Line ending of the document, line breaks of the inserted text are converted to it
+     * @note browsers normalize textarea value to `\n`, so CRLF is possible only with custom text buffers
+     */
+    public get lineEnding(): LineEnding {
+        return this.lineIndex.lineEnding;
     }
 
     /** @returns {Selection} information about current selection */
     public get selection(): Selection | null {
-        const selectionStart = this.element.selectionStart;
-        const selectionEnd = this.element.selectionEnd;
-        const selectionDirection = this.element.selectionDirection;
+        const selectionStart = this.buffer.selectionStart;
+        const selectionEnd = this.buffer.selectionEnd;
+        const selectionDirection = this.buffer.selectionDirection;
         const text = this.value.slice(selectionStart, selectionEnd);
-        const lines = this.lines.filter(
-            (line) =>
-                // selection starts inside a line
-                isBtwOrEq(selectionStart, line.startsAt, line.endsAt) ||
-                // selection ends inside a line
-                isBtwOrEq(selectionEnd, line.startsAt, line.endsAt) ||
-                // line inside selection from left
-                isBtwOrEq(line.startsAt, selectionStart, selectionEnd) ||
-                // line inside selection from right
-                isBtwOrEq(line.endsAt, selectionStart, selectionEnd),
-        );
+        const lines = this.linesInRange(selectionStart, selectionEnd);
 
         if (selectionStart === selectionEnd) {
             return null;
@@ -118,89 +158,383 @@ export class Cursor {
 
     /** @returns {Position} information about current position */
     public get position(): Position {
-        const position = this.element.selectionStart;
-        const line = this.lines.find((line) => position >= line.startsAt && position <= line.endsAt)!;
-        return { cursorAt: position, line };
+        const position = this.buffer.selectionStart;
+        return { cursorAt: position, line: this.lineIndex.lineAtPosition(position) };
     }
 
     /**
      * @returns {Line} information about line
      * */
     public lineAt(lineNumber: number): Line | null {
-        return this.lines[lineNumber - 1] ?? null;
+        return this.lineIndex.line(lineNumber);
     }
 
     /**
-     * Insert text at the cursor position.
-     * if some content is selected will replace it
+     * Markdown structure around the position: blocks (code fence, list item, quote, table, heading, front matter)
+     * and inline marks (code, strong, emphasis, strike-through, link)
+     * @param position - `default:` the start of the selection
+     * @example
+     * const isInCode = cursor.context().blocks.some((block) => block.type === 'code-fence');
      */
-    public insert(content: string) {
-        const normalizedContent = this.normalizeSelection(content);
-        if (!this.selection) {
-            this.insertAtCursor(content);
+    public context(position = this.buffer.selectionStart): MarkdownContext {
+        return getMarkdownContext(this.lineIndex, clamp(position, 0, this.value.length));
+    }
+
+    /**
+     * @returns {SelectRange} range of the word at the position or `null` if there is no word
+     * @param position - `default:` the start of the selection
+     */
+    public wordAt(position = this.buffer.selectionStart): SelectRange | null {
+        return wordRangeAt(this.value, clamp(position, 0, this.value.length));
+    }
+
+    /**
+     * Make ordered lists touched by the range sequential as a single input, the first item of each list keeps its number
+     * @returns {boolean} `false` if lists are sequential already
+     */
+    public renumberLists(start = this.buffer.selectionStart, end = this.buffer.selectionEnd): boolean {
+        const index = this.lineIndex;
+        const edits = getListRenumberEdits(
+            index,
+            index.lineNumberAt(Math.min(start, end)),
+            index.lineNumberAt(Math.max(start, end)),
+        );
+        if (edits.length === 0) {
+            return false;
+        }
+
+        this.transaction((tx) => edits.forEach(({ start, end, text }) => tx.replace(start, end, text)));
+        return true;
+    }
+
+    /**
+     * Nest list items touched by the selection under the previous item, or move them to the level of the parent item
+     * @param cycleMarkers - bullets are cycled per depth, nested ordered lists start from `1.`
+     * @returns {boolean} `false` if the selection doesn't start on a list item which could be moved
+     */
+    public indentListItems({ outdent = false, cycleMarkers = false } = {}): boolean {
+        const index = this.lineIndex;
+        const start = Math.min(this.buffer.selectionStart, this.buffer.selectionEnd);
+        const end = Math.max(this.buffer.selectionStart, this.buffer.selectionEnd);
+        const fromLineNumber = index.lineNumberAt(start);
+        let toLineNumber = index.lineNumberAt(end);
+        // line is not touched if the selection ends at its start
+        if (toLineNumber > fromLineNumber && index.line(toLineNumber)!.startsAt === end) {
+            toLineNumber--;
+        }
+
+        const edits = getListIndentEdits(index, fromLineNumber, toLineNumber, { outdent, cycleMarkers });
+        if (!edits) {
+            return false;
+        }
+
+        this.transaction((tx) => edits.forEach(({ start, end, text }) => tx.replace(start, end, text)));
+        return true;
+    }
+
+    /**
+     * Expand selection to the enclosing syntax unit: word → inline markup span → line → paragraph → block
+     * @returns {boolean} `false` if the whole text is already selected
+     */
+    public expandSelection(): boolean {
+        const current = { start: this.buffer.selectionStart, end: this.buffer.selectionEnd };
+        const [next] = getExpansionRanges(this.lineIndex, current);
+        if (!next) {
+            return false;
+        }
+
+        const previous = this.selectionExpansion?.previous ?? [];
+        this.select(next);
+        selectionExpansions.set(this.buffer, { value: this.value, current: next, previous: [...previous, current] });
+        return true;
+    }
+
+    /**
+     * Revert the last `expandSelection`
+     * @returns {boolean} `false` if the selection wasn't expanded or it has been changed since then
+     */
+    public shrinkSelection(): boolean {
+        const expansion = this.selectionExpansion;
+        if (!expansion) {
+            return false;
+        }
+
+        const previous = expansion.previous.slice(0, -1);
+        const range = expansion.previous[expansion.previous.length - 1];
+        this.select(range);
+
+        if (previous.length > 0) {
+            selectionExpansions.set(this.buffer, { value: this.value, current: range, previous });
+        } else {
+            selectionExpansions.delete(this.buffer);
+        }
+        return true;
+    }
+
+    /**
+     * List of all selection ranges sorted by position, contains at least the native selection
+     * @note range is collapsed (`start === end`) when it's just a cursor position
+     */
+    public get ranges(): SelectRange[] {
+        return this.multiSelection.ranges.map((range) => ({ ...range }));
+    }
+
+    /**
+     * Replace all selection ranges, native selection will be set to the `primary` range
+     * @param primary - index of the range that should become the native selection `default: last one`
+     */
+    public setRanges(ranges: SelectRange[], primary = ranges.length - 1) {
+        if (ranges.length === 0) {
             return;
         }
-        const start = this.selection.selectionStart;
-        const end = this.selection.selectionEnd;
+        const [primaryRange] = mergeRanges([ranges[clamp(primary, 0, ranges.length - 1)]]);
+        const normalized = mergeRanges(ranges);
+        // touching ranges share a boundary, so the exact match is preferred over the merged one
+        const exactIndex = normalized.findIndex(
+            (range) => range.start === primaryRange.start && range.end === primaryRange.end,
+        );
+        const primaryIndex =
+            exactIndex !== -1
+                ? exactIndex
+                : normalized.findIndex((range) => range.start <= primaryRange.start && primaryRange.end <= range.end);
+
+        this.buffer.setSelectionRange(normalized[primaryIndex].start, normalized[primaryIndex].end);
 
-        // PATCH: Use surgical insertion - only replace selected range
-        const data = this.execRaw(normalizedContent);
-        if (process.env.NODE_ENV === 'test') {
-            const newValue = this.value.slice(0, start) + data.text + this.value.slice(end);
-            this.element.value = newValue;
+        if (normalized.length > 1) {
+            multiSelections.set(this.buffer, { value: this.value, ranges: normalized, primary: primaryIndex });
         } else {
-            // Pass selection range to fireInput for surgical replacement
-            fireInput(this.element, data.text, start, end);
+            multiSelections.delete(this.buffer);
         }
+    }
 
-        // Set cursor position after inserted text
-        if (data.selectionStart !== null && data.selectionEnd !== null) {
-            const offset = start;
-            this.element.selectionStart = offset + data.selectionStart;
-            this.element.selectionEnd = offset + data.selectionEnd;
+    /**
+     * Add one more selection range, it becomes a new native selection
+     */
+    public addRange(range: SelectRange) {
+        this.setRanges([...this.ranges, range]);
+    }
+
+    /**
+     * Drop all additional ranges, keep the native selection only
+     */
+    public clearRanges() {
+        multiSelections.delete(this.buffer);
+    }
+
+    /**
+     * Select next occurrence of the text selected by the native selection and add it as a new range.
+     * If nothing is selected will select the word under the cursor instead
+     * @returns {boolean} `true` if selection has been changed
+     */
+    public selectNextOccurrence(): boolean {
+        const { ranges, primary } = this.multiSelection;
+        const current = ranges[primary];
+
+        if (current.start === current.end) {
+            const word = this.wordAt(current.start);
+            if (!word) {
+                return false;
+            }
+            this.setRanges([...ranges.slice(0, primary), word, ...ranges.slice(primary + 1)], primary);
+            return true;
         }
+
+        const searchText = this.value.slice(current.start, current.end);
+        const lastEnd = ranges[ranges.length - 1].end;
+        const candidates = [this.value.indexOf(searchText, lastEnd), this.value.indexOf(searchText)];
+        const start = candidates.find(
+            (index) =>
+                index !== -1 && ranges.every((range) => range.end <= index || range.start >= index + searchText.length),
+        );
+
+        if (start === undefined) {
+            return false;
+        }
+
+        this.addRange({ start, end: start + searchText.length });
+        return true;
     }
 
-    private insertAtCursor(content: string) {
-        const cursorAt = this.position.cursorAt;
+    /**
+     * Insert text at the cursor position.
+     * if some content is selected will replace it
+     * @note applied to every selection range
+     */
+    public insert(content: string) {
         const normalizedContent = this.normalizeSelection(content);
+        const { ranges, primary } = this.multiSelection;
+        this.applyEdits(
+            ranges.map(({ start, end }) => ({ start, end, text: normalizedContent })),
+            primary,
+        );
+    }
 
-        // PATCH: Use surgical insertion at cursor position
-        const data = this.execRaw(normalizedContent);
-        if (process.env.NODE_ENV === 'test') {
-            const newValue = this.value.slice(0, cursorAt) + data.text + this.value.slice(cursorAt);
-            this.element.value = newValue;
-        } else {
-            // Insert at cursor (replace zero-length selection)
-            fireInput(this.element, data.text, cursorAt, cursorAt);
+    /**
+     * Insert snippet instead of the selected text, the first tab stop will be selected.
+     * Use `nextTabStop`/`previousTabStop` to navigate between tab stops, the session is finished on the final `$0` tab stop
+     * @example
+     * cursor.insertSnippet('[${1:text}](${2:url})$0')
+     * @see parseSnippet
+     */
+    public insertSnippet(snippet: string) {
+        const { text, tabStops } = parseSnippet(this.withLineEnding(snippet));
+        const { selectionStart, selectionEnd } = this.buffer;
+        const start = Math.min(selectionStart, selectionEnd);
+
+        this.applyEdits([{ start, end: Math.max(selectionStart, selectionEnd), text }]);
+
+        const absoluteTabStops = tabStops.map((tabStop) => ({
+            ...tabStop,
+            ranges: tabStop.ranges.map((range) => ({ start: start + range.start, end: start + range.end })),
+        }));
+
+        // without `$0` the cursor is placed at the end of the snippet in the end
+        if (absoluteTabStops[absoluteTabStops.length - 1]?.index !== 0) {
+            const end = start + text.length;
+            absoluteTabStops.push({ index: 0, ranges: [{ start: end, end }] });
         }
 
-        // Set cursor position after inserted text
-        if (data.selectionStart !== null) {
-            this.element.selectionStart = cursorAt + data.selectionStart;
-            this.element.selectionEnd = cursorAt + (data.selectionEnd ?? data.selectionStart);
+        const session = { value: this.value, tabStops: absoluteTabStops, current: 0 };
+        snippetSessions.set(this.buffer, session);
+        this.selectTabStop(session, 0);
+    }
+
+    /**
+     * Select the next tab stop of the active snippet
+     * @returns {boolean} `false` if there is no active snippet
+     */
+    public nextTabStop(): boolean {
+        return this.moveToTabStop(1);
+    }
+
+    /**
+     * Select the previous tab stop of the active snippet
+     * @returns {boolean} `false` if there is no active snippet
+     */
+    public previousTabStop(): boolean {
+        return this.moveToTabStop(-1);
+    }
+
+    /**
+     * Finish the active snippet session if any, cursor stays where it is
+     */
+    public exitSnippet() {
+        snippetSessions.delete(this.buffer);
+    }
+
+    /**
+     * Revert the last change using the library-managed history
+     * @returns {boolean} `false` if history is not enabled or there is nothing to undo
+     */
+    public undo(): boolean {
+        return getHistory(this.buffer)?.undo() ?? false;
+    }
+
+    /**
+     * Apply the last reverted change again using the library-managed history
+     * @returns {boolean} `false` if history is not enabled or there is nothing to redo
+     */
+    public redo(): boolean {
+        return getHistory(this.buffer)?.redo() ?? false;
+    }
+
+    /**
+     * Collect several edits and apply them as a single input, so they are reverted by a single undo.
+     * All positions are relative to the value before the transaction.
+     * Selection is defined by markers inside the edits, by `tx.select` or mapped from the current one.
+     * Single markers of two edits define a single range, two adjacent markers keep a caret as a separate range
+     * @example
+     * cursor.transaction((tx) => {
+     *     tx.insert(0, '# ');
+     *     tx.replace(10, 15, `${Cursor.MARKER}new${Cursor.MARKER}`);
+     * });
+     * @note other Cursor methods called inside the callback are applied immediately
+     */
+    public transaction(callback: (tx: Transaction) => void) {
+        const edits: Edit[] = [];
+        let selection: SelectRange | null = null;
+
+        const tx: Transaction = {
+            replace: (start, end, text) => {
+                edits.push({ start: Math.min(start, end), end: Math.max(start, end), text: this.withLineEnding(text) });
+                return tx;
+            },
+            insert: (position, text) => tx.replace(position, position, text),
+            delete: (start, end) => tx.replace(start, end, ''),
+            select: (start, end = start) => {
+                selection = { start, end };
+                return tx;
+            },
+        };
+
+        callback(tx);
+
+        const currentSelection = selection ?? { start: this.buffer.selectionStart, end: this.buffer.selectionEnd };
+        const merged = mergeEdits(edits);
+
+        if (merged.length === 0) {
+            this.setRanges([currentSelection]);
+            return;
+        }
+
+        const marked = this.commitEdits(merged).filter(({ hasMarkers }) => hasMarkers);
+
+        if (marked.length === 2 && marked.every(({ singleMarker }) => singleMarker)) {
+            // two single markers in different edits define a single range
+            this.setRanges([{ start: marked[0].range.start, end: marked[1].range.start }]);
+        } else if (marked.length > 0) {
+            this.setRanges(marked.map(({ range }) => range));
+        } else {
+            this.setRanges([
+                { start: mapPosition(currentSelection.start, merged), end: mapPosition(currentSelection.end, merged) },
+            ]);
         }
     }
 
     /**
-     * Insert content and scroll it into view if it's below the visible area
-     * @param forceManual - Force manual value manipulation instead of execCommand (for Firefox file inputs)
+     * Insert content and scroll the textarea, so the cursor after insertion is visible
      */
     public insertAndScrollIntoView(content: string) {
-        const cursorPositionBefore = this.element.selectionStart;
         this.insert(content);
+        this.scrollIntoView(this.buffer.selectionEnd);
+    }
 
-        // Scroll into view if inserted content is below visible area
-        const textarea = this.element;
-        const lineHeight = parseInt(window.getComputedStyle(textarea).lineHeight) || 20;
-        const cursorLine = textarea.value.substring(0, cursorPositionBefore).split('\n').length;
-        const cursorPixelPosition = cursorLine * lineHeight;
-        const visibleBottom = textarea.scrollTop + textarea.clientHeight;
+    /**
+     * Pixel position of the caret, wrapped lines and fonts are taken into account. Useful to anchor popups
+     * @param position - `default:` the end of the selection the user is extending
+     * @returns {CaretRect} rect relative to the top-left corner of the element or `null` without DOM
+     * @example
+     * const rect = cursor.getCaretRect();
+     * const { top, left } = textarea.getBoundingClientRect();
+     * popup.style.transform = `translate(${left + rect.left}px, ${top + rect.top + rect.height}px)`;
+     */
+    public getCaretRect(position?: number): CaretRect | null {
+        const element = this.element;
+        if (!element) {
+            return null;
+        }
 
-        if (cursorPixelPosition > visibleBottom) {
-            // Content is below visible area, scroll it into view
-            textarea.scrollTop = cursorPixelPosition - textarea.clientHeight + lineHeight * 2;
+        const { selectionStart, selectionEnd, selectionDirection } = this.buffer;
+        const focus = position ?? (selectionDirection === 'backward' ? selectionStart : selectionEnd);
+        const at = clamp(focus, 0, this.value.length);
+
+        return measureRange(element, at)[0] ?? null;
+    }
+
+    /**
+     * Pixel rects of the `[start, end)` range, one rect per visual line
+     * @returns {CaretRect[]} rects relative to the top-left corner of the element, empty without DOM
+     */
+    public getRangeRects(start: number, end: number): CaretRect[] {
+        const element = this.element;
+        if (!element) {
+            return [];
         }
+
+        const from = clamp(Math.min(start, end), 0, this.value.length);
+        const to = clamp(Math.max(start, end), 0, this.value.length);
+
+        return measureRange(element, from, to);
     }
 
     /**
@@ -216,9 +550,86 @@ export class Cursor {
         const searchEnd = searchStart + searchText.length;
 
         // Preserve scroll position
-        const savedScrollTop = this.element.scrollTop;
-        fireInput(this.element, replacement, searchStart, searchEnd);
-        this.element.scrollTop = savedScrollTop;
+        const savedScrollTop = this.element?.scrollTop ?? 0;
+        this.replaceRange(searchStart, searchEnd, replacement);
+        if (this.element) {
+            this.element.scrollTop = savedScrollTop;
+        }
+    }
+
+    /**
+     * Find all matches of the pattern, string pattern is treated literally
+     * @note empty matches are skipped
+     */
+    public findAll(pattern: SearchPattern): SearchMatch[] {
+        return findMatches(this.value, pattern);
+    }
+
+    /**
+     * Replace all matches of the pattern as a single input while preserving scroll position
+     * @param replacer - replacement string (supports `$1`, `$<name>`, `$&`) or a function with `String.prototype.replace` replacer signature
+     * @returns {number} count of replaced matches
+     */
+    public replaceAll(pattern: SearchPattern, replacer: SearchReplacer): number {
+        const value = this.value;
+        const matches = this.findAll(pattern);
+
+        if (matches.length === 0) {
+            return 0;
+        }
+
+        // line breaks are converted in advance, so the selection is mapped with the inserted lengths
+        const edits = matches.map((match) => ({
+            start: match.start,
+            end: match.end,
+            text: this.withLineEnding(expandReplacement(match, replacer, value)),
+        }));
+
+        const { selectionStart, selectionEnd } = this.buffer;
+        const savedScrollTop = this.element?.scrollTop ?? 0;
+
+        this.commitEdits(edits);
+
+        // keep the selection where it was before replacement
+        this.setRanges([{ start: mapPosition(selectionStart, edits), end: mapPosition(selectionEnd, edits) }]);
+        if (this.element) {
+            this.element.scrollTop = savedScrollTop;
+        }
+
+        return matches.length;
+    }
+
+    /**
+     * Select the next match after the current selection and scroll it into view
+     * @param options.wrap - continue search from the beginning `default: true`
+     * @returns {SearchMatch} selected match or `null` if nothing is found
+     */
+    public findNext(pattern: SearchPattern, options?: { wrap?: boolean }): SearchMatch | null {
+        const { wrap = true } = options ?? {};
+        const matches = this.findAll(pattern);
+        const { selectionStart, selectionEnd } = this.buffer;
+
+        // the currently selected match should be skipped
+        const from = selectionStart === selectionEnd ? selectionStart : selectionStart + 1;
+        const match = matches.find((m) => m.start >= from) ?? (wrap ? matches[0] : undefined);
+
+        return match ? this.selectMatch(match) : null;
+    }
+
+    /**
+     * Select the previous match before the current selection and scroll it into view
+     * @param options.wrap - continue search from the end `default: true`
+     * @returns {SearchMatch} selected match or `null` if nothing is found
+     */
+    public findPrevious(pattern: SearchPattern, options?: { wrap?: boolean }): SearchMatch | null {
+        const { wrap = true } = options ?? {};
+        const matches = this.findAll(pattern);
+        const { selectionStart } = this.buffer;
+
+        const match =
+            findLast(matches, (m) => m.start < selectionStart) ?? (wrap ? matches[matches.length - 1] : undefined);
+
+        return match ? this.selectMatch(match) : null;
     }
 
     /**
@@ -227,31 +638,40 @@ export class Cursor {
      *
      * @param callback - The map function will be called once for each selected line and will replace the contents of the line with the result of the call
      * @note line is considered as selected even if it is partially selected
+     * @note applied to lines of every selection range, ranges on the same lines are handled together
      */
     public replaceCurrentLines(
         callback: (this: Cursor, line: Line, index: number, currentLines: Line[]) => string | null,
         options?: { selectReplaced?: boolean },
     ) {
         const { selectReplaced = false } = options ?? {};
-        const selectedLines = this.selection?.lines ?? [this.lineAt(this.position.line.lineNumber)!];
 
-        const content = selectedLines
-            .map((line, index) => callback.call(this, line, index, selectedLines))
-            .filter((ctn) => ctn !== null) // delete line if null
-            .join('\n');
+        // group ranges sharing lines, every group will be replaced at once
+        const groups = this.ranges.reduce<Line[][]>((acc, range) => {
+            const lines = this.linesInRange(range.start, range.end);
+            const last = acc[acc.length - 1];
+            if (last && last[last.length - 1].lineNumber >= lines[0].lineNumber) {
+                last.push(...lines.filter((line) => line.lineNumber > last[last.length - 1].lineNumber));
+            } else {
+                acc.push(lines);
+            }
+            return acc;
+        }, []);
 
-        const start = selectedLines[0].startsAt;
-        const end = selectedLines[selectedLines.length - 1].endsAt;
+        const edits = groups.map((selectedLines) => {
+            const content = selectedLines
+                .map((line, index) => callback.call(this, line, index, selectedLines))
+                .filter((ctn) => ctn !== null) // delete line if null
+                .join('\n');
 
-        // PATCH: Use surgical insertion instead of setValue to avoid scroll jumps
-        const data = this.execRaw(this.normalizeSelection(content, selectReplaced ? 'SELECT_ALL' : 'TO_END'));
-        fireInput(this.element, data.text, start, end);
+            return {
+                start: selectedLines[0].startsAt,
+                end: selectedLines[selectedLines.length - 1].endsAt,
+                text: this.normalizeSelection(content, selectReplaced ? 'SELECT_ALL' : 'TO_END'),
+            };
+        });
 
-        // Set cursor position after replaced text
-        if (data.selectionStart !== null && data.selectionEnd !== null) {
-            this.element.selectionStart = start + data.selectionStart;
-            this.element.selectionEnd = start + data.selectionEnd;
-        }
+        this.applyEdits(edits);
     }
 
     /**
@@ -264,76 +684,48 @@ export class Cursor {
             console.error('Unknown line number: ' + lineNumber);
             return;
         }
-        const start = line.startsAt;
-        const end = line.endsAt;
+
         if (content === null) {
-            // PATCH: line should be removed - use surgical deletion
-            const data = this.execRaw('');
-            // Remove from start-1 (including newline) to end
-            fireInput(this.element, data.text, start - 1, end);
-            // Set cursor position
-            if (data.selectionStart !== null) {
-                this.element.selectionStart = start - 1 + data.selectionStart;
-                this.element.selectionEnd = start - 1 + data.selectionStart;
-            }
+            // line should be removed including the preceding line break
+            const start = this.lineAt(lineNumber - 1)?.endsAt ?? 0;
+            this.applyEdits([{ start, end: line.endsAt, text: '' }]);
             return;
         }
 
-        // PATCH: Use surgical insertion instead of setValue
-        const data = this.execRaw(this.normalizeSelection(content));
-        fireInput(this.element, data.text, start, end);
-
-        // Set cursor position after replaced text
-        if (data.selectionStart !== null && data.selectionEnd !== null) {
-            this.element.selectionStart = start + data.selectionStart;
-            this.element.selectionEnd = start + data.selectionEnd;
-        }
+        this.applyEdits([{ start: line.startsAt, end: line.endsAt, text: this.normalizeSelection(content) }]);
     }
 
     /**
      * Wraps selection inside markup
+     * @note applied to every selection range
      */
     public wrap(markup: string | [string, string], options?: WrapOptions) {
         const { unwrap = true, placeholder = '' } = options ?? {};
         const [prefix, suffix] = Array.isArray(markup) ? markup : [markup, markup];
         const text = this.value;
-        const start = this.selection?.selectionStart ?? this.position.cursorAt;
-        const end = this.selection?.selectionEnd ?? this.position.cursorAt;
-
-        if (this.isSelectedWrappedWith(markup) && unwrap) {
-            // PATCH: Unwrap - use surgical replacement with MARKERs for cursor positioning
-            const unwrappedContent = MARKER + text.slice(start, end) + MARKER;
-            const data = this.execRaw(unwrappedContent);
-            // Replace from (start - prefix.length) to (end + suffix.length)
-            fireInput(this.element, data.text, start - prefix.length, end + suffix.length);
-
-            // Set cursor position
-            if (data.selectionStart !== null && data.selectionEnd !== null) {
-                const offset = start - prefix.length;
-                this.element.selectionStart = offset + data.selectionStart;
-                this.element.selectionEnd = offset + data.selectionEnd;
-            }
-            return;
-        }
+        const { ranges, primary } = this.multiSelection;
 
-        // PATCH: Wrap - use surgical replacement with MARKERs for cursor positioning
-        const wrappedContent = prefix + MARKER + (text.slice(start, end) || placeholder) + MARKER + suffix;
-        const data = this.execRaw(wrappedContent);
-        fireInput(this.element, data.text, start, end);
+        const edits = ranges.map((range): Edit => {
+            // markup inside of a grapheme would break it
+            const { start, end } = snapRangeToGraphemes(text, range.start, range.end);
 
-        // Set cursor position
-        if (data.selectionStart !== null && data.selectionEnd !== null) {
-            this.element.selectionStart = start + data.selectionStart;
-            this.element.selectionEnd = start + data.selectionEnd;
-        }
+            if (unwrap && this.isWrappedWith(start, end, markup)) {
+                // keep the content selected, remove the markup around
+                return {
+                    start: start - prefix.length,
+                    end: end + suffix.length,
+                    text: MARKER + text.slice(start, end) + MARKER,
+                };
+            }
+            return { start, end, text: prefix + MARKER + (text.slice(start, end) || placeholder) + MARKER + suffix };
+        });
+
+        this.applyEdits(edits, primary);
     }
 
-    private isSelectedWrappedWith(markup: string | [string, string]) {
+    private isWrappedWith(start: number, end: number, markup: string | [string, string]) {
         const [prefix, suffix] = Array.isArray(markup) ? markup : [markup, markup];
 
-        const start = this.selection?.selectionStart ?? this.position.cursorAt;
-        const end = this.selection?.selectionEnd ?? this.position.cursorAt;
-
         if (start - prefix.length < 0 || end - 1 + suffix.length > this.value.length - 1) {
             return false;
         }
@@ -342,17 +734,232 @@ export class Cursor {
         return curPrefix === prefix && curSuffix === suffix;
     }
 
+    /**
+     * Select the range, boundaries are moved outside of emoji and letters with combining marks
+     */
     public select(options: SelectRange | SelectRelative) {
+        this.clearRanges();
         if ('start' in options && 'end' in options) {
-            this.element.setSelectionRange(options.start, options.end);
+            const { start, end } = snapRangeToGraphemes(this.value, options.start, options.end);
+            this.buffer.setSelectionRange(start, end);
+        } else {
+            const start = this.buffer.selectionStart + options.fromCurrentStart;
+            const end = this.buffer.selectionEnd + options.fromCurrentEnd;
+
+            if (start === end) {
+                // collapsed selection is moved in the direction of the shift
+                const direction = options.fromCurrentStart > 0 ? 'forward' : 'backward';
+                const position = snapToGrapheme(this.value, start, direction);
+                this.buffer.setSelectionRange(position, position);
+            } else {
+                const snapped = snapRangeToGraphemes(this.value, start, end);
+                this.buffer.setSelectionRange(snapped.start, snapped.end);
+            }
+        }
+    }
+
+    private moveToTabStop(direction: 1 | -1): boolean {
+        const session = this.snippetSession;
+        if (!session) {
+            return false;
+        }
+
+        this.selectTabStop(session, clamp(session.current + direction, 0, session.tabStops.length - 1));
+        return true;
+    }
+
+    private selectTabStop(session: SnippetSession, index: number) {
+        const tabStop = session.tabStops[index];
+        session.current = index;
+
+        this.setRanges(tabStop.ranges, 0);
+        if (tabStop.index === 0) {
+            this.exitSnippet();
+        }
+    }
+
+    /**
+     * Active snippet session with tab stops mapped to the current value.
+     * Session is finished if tab stops can't be mapped or the cursor has left the snippet
+     */
+    private get snippetSession(): SnippetSession | null {
+        const session = snippetSessions.get(this.buffer);
+        if (!session) {
+            return null;
+        }
+
+        const value = this.value;
+        if (session.value !== value) {
+            const tabStops = mapTabStops(session.tabStops, session.current, diffRange(session.value, value));
+            if (!tabStops) {
+                this.exitSnippet();
+                return null;
+            }
+            Object.assign(session, { value, tabStops });
+        }
+
+        const ranges = session.tabStops.flatMap((tabStop) => tabStop.ranges);
+        const snippetStart = Math.min(...ranges.map((range) => range.start));
+        const snippetEnd = Math.max(...ranges.map((range) => range.end));
+        const { selectionStart, selectionEnd } = this.buffer;
+
+        if (selectionStart < snippetStart || selectionEnd > snippetEnd) {
+            this.exitSnippet();
+            return null;
+        }
+
+        return session;
+    }
+
+    private selectMatch(match: SearchMatch) {
+        this.select({ start: match.start, end: match.end });
+        this.scrollIntoView(match.start);
+        return match;
+    }
+
+    /**
+     * Scroll the textarea, so the line with the position is visible
+     */
+    private scrollIntoView(position: number) {
+        const textarea = this.element;
+        const rect = this.getCaretRect(position);
+        if (!textarea || !rect) {
+            return;
+        }
+
+        // visible area starts after the top border
+        const top = rect.top - textarea.clientTop;
+
+        if (top < 0) {
+            textarea.scrollTop += top;
+        } else if (top + rect.height > textarea.clientHeight) {
+            textarea.scrollTop += top + rect.height - textarea.clientHeight;
+        }
+    }
+
+    /** Expansion state, `null` if the selection or value has been changed since the last expansion */
+    private get selectionExpansion(): SelectionExpansion | null {
+        const expansion = selectionExpansions.get(this.buffer);
+        const { selectionStart, selectionEnd } = this.buffer;
+
+        if (
+            !expansion ||
+            expansion.value !== this.value ||
+            expansion.current.start !== selectionStart ||
+            expansion.current.end !== selectionEnd
+        ) {
+            return null;
+        }
+
+        return expansion;
+    }
+
+    private get multiSelection(): MultiSelection {
+        const native = { start: this.buffer.selectionStart, end: this.buffer.selectionEnd };
+        const stored = multiSelections.get(this.buffer);
+        const primary = stored?.ranges[stored.primary];
+
+        if (!stored || stored.value !== this.value || primary?.start !== native.start || primary.end !== native.end) {
+            return { value: this.value, ranges: [native], primary: 0 };
+        }
+
+        return stored;
+    }
+
+    /**
+     * Line index synced with the current value
+     * @note value is checked on every access, so changes made outside of the Cursor are picked up as well
+     */
+    private get lineIndex(): LineIndex {
+        let index = lineIndexes.get(this.buffer);
+        if (!index) {
+            index = new LineIndex(this.value);
+            lineIndexes.set(this.buffer, index);
+        }
+        index.update(this.value);
+        return index;
+    }
+
+    /** @returns {Line[]} lines touched by the range, line is considered touched even if it is partially touched */
+    private linesInRange(start: number, end: number): Line[] {
+        const index = this.lineIndex;
+        return index.linesBetween(index.lineNumberAt(Math.min(start, end)), index.lineNumberAt(Math.max(start, end)));
+    }
+
+    /**
+     * Apply all edits as a single input, each edit defines its own selection range via markers.
+     * Edits are expected to be sorted and to not overlap each other
+     * @param primary - index of the edit which selection becomes a native selection `default: last one`
+     */
+    private applyEdits(edits: Edit[], primary = edits.length - 1) {
+        if (edits.length === 0) {
+            return;
+        }
+
+        const results = this.commitEdits(edits);
+        this.setRanges(
+            results.map(({ range }) => range),
+            primary,
+        );
+    }
+
+    /**
+     * Apply all edits as a single input without changing the selection
+     * @returns {object[]} selection range defined by each edit and whether it was defined by markers
+     */
+    private commitEdits(edits: Edit[]) {
+        const value = this.value;
+        const from = edits[0].start;
+        const to = edits[edits.length - 1].end;
+
+        let content = '';
+        let delta = 0;
+        let lastIndex = from;
+        const results: { range: SelectRange; hasMarkers: boolean; singleMarker: boolean }[] = [];
+
+        for (const edit of edits) {
+            const data = this.execRaw(this.withLineEnding(edit.text));
+            const at = edit.start + delta;
+
+            content += value.slice(lastIndex, edit.start) + data.text;
+
+            // without markers cursor is placed at the end of inserted text
+            const selectionStart = data.selectionStart ?? data.text.length;
+            const selectionEnd = data.selectionEnd ?? selectionStart;
+            results.push({
+                range: { start: at + selectionStart, end: at + selectionEnd },
+                hasMarkers: data.selectionStart !== null,
+                singleMarker: data.selectionStart !== null && data.selectionEnd === null,
+            });
+
+            delta += data.text.length - (edit.end - edit.start);
+            lastIndex = edit.end;
+        }
+
+        // index is updated in advance, since input listeners can access the lines as well
+        this.lineIndex.applyEdit(from, to, content);
+        this.replaceRange(from, to, content);
+
+        return results;
+    }
+
+    /**
+     * All changes of the buffer go through here, so they are recorded by the history if it's enabled
+     */
+    private replaceRange(start: number, end: number, text: string) {
+        const history = getHistory(this.buffer);
+        if (history) {
+            history.record(start, end, text, () => this.buffer.replaceRange(start, end, text));
         } else {
-            this.element.setSelectionRange(
-                this.element.selectionStart + options.fromCurrentStart,
-                this.element.selectionEnd + options.fromCurrentEnd,
-            );
+            this.buffer.replaceRange(start, end, text);
         }
     }
 
+    /** Convert line breaks of the text to the line ending of the document */
+    private withLineEnding(text: string) {
+        return this.lineEnding === '\r\n' ? text.replace(/\r?\n/g, '\r\n') : text;
+    }
+
     private normalizeSelection(text: string, defaultBehavior: 'TO_START' | 'TO_END' | 'SELECT_ALL' = 'TO_END') {
         if (text.includes(MARKER)) {
             return text;
@@ -377,7 +984,7 @@ export class Cursor {
         let selectionStart: null | number = null;
         let selectionEnd: null | number = null;
 
-        // TODO: handle case with more than 2 markers
+        // only two markers are supported, use `insertSnippet` for more complex cases
         if (fIndex !== -1) {
             selectionStart = fIndex;
             selectionEnd = lIndex === -1 || lIndex === fIndex ? null : lIndex - 1;
@@ -386,3 +993,96 @@ export class Cursor {
         return { text, selectionStart, selectionEnd };
     }
 }
+
+/** Sort ranges and merge the overlapping ones */
+const mergeRanges = (ranges: SelectRange[]): SelectRange[] => {
+    const sorted = ranges
+        .map(({ start, end }) => ({ start: Math.min(start, end), end: Math.max(start, end) }))
+        .sort((a, b) => a.start - b.start);
+
+    return sorted.reduce<SelectRange[]>((acc, range) => {
+        const last = acc[acc.length - 1];
+        if (last && (range.start < last.end || range.start === last.start)) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            acc.push(range);
+        }
+        return acc;
+    }, []);
+};
+
+/** @returns {number} position after applying sorted edits */
+const mapPosition = (position: number, edits: Edit[]) => {
+    let delta = 0;
+    for (const edit of edits) {
+        if (edit.end <= position) {
+            delta += edit.text.length - (edit.end - edit.start);
+        } else if (edit.start < position) {
+            // position was inside the replaced range
+            return edit.start + delta + edit.text.length;
+        } else {
+            break;
+        }
+    }
+    return position + delta;
+};
+
+/**
+ * Map tab stops through the text change, the current tab stop is growing with the typed text
+ * @returns {SnippetTabStop[]} mapped tab stops or `null` if change is partially overlapping some tab stop
+ */
+const mapTabStops = (
+    tabStops: SnippetTabStop[],
+    current: number,
+    { start, prevEnd, nextEnd }: ReturnType<typeof diffRange>,
+): SnippetTabStop[] | null => {
+    const delta = nextEnd - prevEnd;
+    const currentRange = tabStops[current]?.ranges.find((range) => start >= range.start && prevEnd <= range.end);
+    let isValid = true;
+
+    const mapRange = (range: SelectRange): SelectRange => {
+        const isInside = range === currentRange || (start > range.start && prevEnd < range.end);
+        // tab stop starting where the current one ends is considered to be after it
+        const isBefore =
+            range.end < start || (range.end === start && !(currentRange && range.start >= currentRange.end));
+
+        if (isInside) {
+            return { start: range.start, end: range.end + delta };
+        }
+        if (isBefore) {
+            return range;
+        }
+        if (range.start >= prevEnd) {
+            return { start: range.start + delta, end: range.end + delta };
+        }
+        isValid = false;
+        return range;
+    };
+
+    const mapped = tabStops.map((tabStop) => ({ ...tabStop, ranges: tabStop.ranges.map(mapRange) }));
+
+    return isValid ? mapped : null;
+};
+
+/**
+ * Sort edits, insertions at the same position are merged in order of addition
+ * @throws {RangeError} if edits are overlapping
+ */
+const mergeEdits = (edits: Edit[]): Edit[] => {
+    const sorted = edits
+        .map((edit, order) => ({ edit, order }))
+        .sort((a, b) => a.edit.start - b.edit.start || a.edit.end - b.edit.end || a.order - b.order)
+        .map(({ edit }) => edit);
+
+    return sorted.reduce<Edit[]>((acc, edit) => {
+        const last = acc[acc.length - 1];
+        if (last && last.start === last.end && last.start === edit.start) {
+            acc[acc.length - 1] = { start: edit.start, end: edit.end, text: last.text + edit.text };
+        } else if (last && edit.start < last.end) {
+            throw new RangeError('Transaction edits should not overlap');
+        } else {
+            acc.push(edit);
+        }
+        return acc;
+    }, []);
+};
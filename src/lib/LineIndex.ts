@@ -0,0 +1,172 @@
+import { diffRange } from './utils';
+
+/** Line break used by the document */
+export type LineEnding = '\n' | '\r\n';
+
+export type Line = {
+    text: string;
+    lineNumber: number;
+
+    /** Index of the first character of the string */
+    startsAt: number;
+
+    /**
+     * Index of the and of the line (includes the characters up to)
+     * @note line break is not included, `\r` of CRLF as well
+     * */
+    endsAt: number;
+};
+
+/**
+ * Keeps offsets of the line starts, so lines lookup doesn't require to split the whole text.
+ * Index is updated incrementally, only the changed region is re-indexed
+ */
+export class LineIndex {
+    private text = '';
+
+    /** Offset of the first character of each line */
+    private starts: number[] = [0];
+
+    /** Lazily created lines, `undefined` for the lines that were not requested yet */
+    private cache: (Line | undefined)[] = [];
+
+    public constructor(text = '') {
+        this.update(text);
+    }
+
+    public get value() {
+        return this.text;
+    }
+
+    public get lineCount() {
+        return this.starts.length;
+    }
+
+    /**
+     * Line ending of the document, it's detected by the first line break. `\n` is used if there are no line breaks
+     */
+    public get lineEnding(): LineEnding {
+        return this.starts.length > 1 && this.text[this.starts[1] - 2] === '\r' ? '\r\n' : '\n';
+    }
+
+    /**
+     * Sync the index with the text, if text differs only the changed region is re-indexed
+     */
+    public update(text: string) {
+        if (text === this.text) {
+            return;
+        }
+        const { start, prevEnd, nextEnd } = diffRange(this.text, text);
+        this.applyEdit(start, prevEnd, text.slice(start, nextEnd));
+        this.text = text;
+    }
+
+    /**
+     * Apply replacement of the `[start, end)` range with the content
+     */
+    public applyEdit(start: number, end: number, content: string) {
+        const delta = content.length - (end - start);
+
+        // lines starting inside the replaced range are gone, since their line breaks are replaced
+        const from = this.firstStartAfter(start);
+        const to = this.firstStartAfter(end);
+
+        const inserted: number[] = [];
+        for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+            inserted.push(start + index + 1);
+        }
+
+        const tail = this.starts.slice(to);
+        for (let i = 0; i < tail.length; i++) {
+            tail[i] += delta;
+        }
+
+        this.starts.length = from;
+        for (const lineStart of inserted) {
+            this.starts.push(lineStart);
+        }
+        for (const lineStart of tail) {
+            this.starts.push(lineStart);
+        }
+
+        this.text = this.text.slice(0, start) + content + this.text.slice(end);
+
+        // the line containing `start` and all the following lines are changed
+        this.cache.length = Math.min(this.cache.length, from - 1);
+    }
+
+    /** @returns {number} number of the line which contains the position */
+    public lineNumberAt(position: number): number {
+        let low = 0;
+        let high = this.starts.length - 1;
+
+        while (low < high) {
+            const middle = (low + high + 1) >> 1;
+            if (this.starts[middle] <= position) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        return low + 1;
+    }
+
+    /** @returns {Line} line which contains the position */
+    public lineAtPosition(position: number): Line {
+        return this.line(this.lineNumberAt(position))!;
+    }
+
+    public line(lineNumber: number): Line | null {
+        const index = lineNumber - 1;
+        if (!Number.isInteger(index) || index < 0 || index >= this.starts.length) {
+            return null;
+        }
+
+        if (!this.cache[index]) {
+            const startsAt = this.starts[index];
+            const isLast = index === this.starts.length - 1;
+            let endsAt = isLast ? this.text.length : this.starts[index + 1] - 1;
+            // CR of CRLF is a part of the line break, not the text
+            if (!isLast && endsAt > startsAt && this.text[endsAt - 1] === '\r') {
+                endsAt--;
+            }
+            this.cache[index] = { text: this.text.slice(startsAt, endsAt), lineNumber, startsAt, endsAt };
+        }
+
+        return this.cache[index]!;
+    }
+
+    /** @returns {Line[]} lines in range of line numbers (both inclusive) */
+    public linesBetween(fromLineNumber: number, toLineNumber: number): Line[] {
+        const lines: Line[] = [];
+        for (let lineNumber = Math.max(fromLineNumber, 1); lineNumber <= toLineNumber; lineNumber++) {
+            const line = this.line(lineNumber);
+            if (!line) {
+                break;
+            }
+            lines.push(line);
+        }
+        return lines;
+    }
+
+    public get lines(): Line[] {
+        return this.linesBetween(1, this.starts.length);
+    }
+
+    private firstStartAfter(position: number) {
+        let low = 0;
+        let high = this.starts.length;
+
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (this.starts[middle] > position) {
+                high = middle;
+            } else {
+                low = middle + 1;
+            }
+        }
+
+        return low;
+    }
+}
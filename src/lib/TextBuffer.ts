@@ -0,0 +1,103 @@
+import { fireInput } from './utils';
+
+export type SelectionDirectionType = 'backward' | 'forward' | 'none';
+
+/**
+ * Minimal editable text source, which `Cursor` and commands are working with
+ */
+export interface TextBuffer {
+    readonly value: string;
+    readonly selectionStart: number;
+    readonly selectionEnd: number;
+    readonly selectionDirection: SelectionDirectionType;
+
+    /**
+     * Replace the `[start, end)` range with the text
+     * @note cursor should be placed at the end of inserted text
+     */
+    replaceRange(start: number, end: number, text: string): void;
+
+    setSelectionRange(start: number, end: number, direction?: SelectionDirectionType): void;
+}
+
+/**
+ * Buffer backed by textarea or input element, changes are applied as a native input
+ */
+export class TextareaBuffer implements TextBuffer {
+    public constructor(public readonly element: HTMLTextAreaElement | HTMLInputElement) {}
+
+    public get value() {
+        return this.element.value;
+    }
+
+    public get selectionStart() {
+        return this.element.selectionStart ?? 0;
+    }
+
+    public get selectionEnd() {
+        return this.element.selectionEnd ?? 0;
+    }
+
+    public get selectionDirection() {
+        return (this.element.selectionDirection ?? 'none') as SelectionDirectionType;
+    }
+
+    public replaceRange(start: number, end: number, text: string) {
+        fireInput(this.element, text, start, end);
+    }
+
+    public setSelectionRange(start: number, end: number, direction?: SelectionDirectionType) {
+        this.element.setSelectionRange(start, end, direction);
+    }
+}
+
+/**
+ * DOM-free buffer, useful to run commands on the server side, in workers or in tests
+ */
+export class MemoryBuffer implements TextBuffer {
+    public selectionStart: number;
+    public selectionEnd: number;
+    public selectionDirection: SelectionDirectionType = 'none';
+
+    public constructor(
+        public value = '',
+        selectionStart = value.length,
+        selectionEnd = selectionStart,
+    ) {
+        this.selectionStart = selectionStart;
+        this.selectionEnd = selectionEnd;
+    }
+
+    public replaceRange(start: number, end: number, text: string) {
+        this.value = this.value.slice(0, start) + text + this.value.slice(end);
+        this.selectionStart = this.selectionEnd = start + text.length;
+    }
+
+    public setSelectionRange(start: number, end: number, direction: SelectionDirectionType = 'none') {
+        this.selectionStart = Math.min(Math.max(start, 0), this.value.length);
+        this.selectionEnd = Math.min(Math.max(end, this.selectionStart), this.value.length);
+        this.selectionDirection = direction;
+    }
+}
+
+const textareaBuffers = new WeakMap<HTMLTextAreaElement | HTMLInputElement, TextareaBuffer>();
+
+/**
+ * @returns {TextBuffer} the same buffer instance for the same element
+ */
+export const toTextBuffer = (target: HTMLTextAreaElement | HTMLInputElement | TextBuffer): TextBuffer => {
+    if (target instanceof TextareaBuffer || target instanceof MemoryBuffer) {
+        return target;
+    }
+
+    // elements are text buffers as well (except `replaceRange`), so they have to be checked first
+    if (typeof HTMLElement !== 'undefined' && target instanceof HTMLElement) {
+        const element = target as HTMLTextAreaElement | HTMLInputElement;
+        if (!textareaBuffers.has(element)) {
+            textareaBuffers.set(element, new TextareaBuffer(element));
+        }
+        return textareaBuffers.get(element)!;
+    }
+
+    return target as TextBuffer;
+};
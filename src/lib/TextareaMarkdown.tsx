@@ -7,7 +7,7 @@ import {
     TextareaMarkdownProps,
     TextareaMarkdownRef,
 } from './types';
-import { findTextArea, isRefObject } from './utils';
+import { findLast, findTextArea, isRefObject } from './utils';
 
 type TextareaMarkdownWrapperProps = TextareaMarkdownProps & {
     children: ReactElement;
@@ -78,24 +78,48 @@ type UseBootstrapOptions = {
 };
 
 const useBootstrap = ({ commands, options, ref, textareaRef }: UseBootstrapOptions) => {
+    // keep the latest handlers around, so inline handlers don't require to reinitialize the textarea on every render
+    const commandsRef = useRef(commands);
+    commandsRef.current = commands;
+
     useEffect(() => {
         if (!textareaRef.current) {
             return;
         }
 
-        const { dispose, trigger, cursor } = bootstrapTextareaMarkdown(textareaRef.current, {
-            commands,
+        const textarea = textareaRef.current;
+        const { dispose, trigger, cursor } = bootstrapTextareaMarkdown(textarea, {
+            commands: commands?.map((command) =>
+                command.handler
+                    ? {
+                          ...command,
+                          handler: (...args) => {
+                              const latest = findLast(commandsRef.current ?? [], (c) => c.name === command.name);
+                              (latest?.handler ?? command.handler)!(...args);
+                          },
+                      }
+                    : command,
+            ),
             options,
         });
 
         // initialize the TextareaMarkdown ref
-        if (isRefObject(ref)) {
-            ref.current = Object.assign(textareaRef.current, { trigger, cursor });
-        }
+        assignRef(ref, Object.assign(textarea, { trigger, cursor }));
 
-        return dispose;
+        return () => {
+            dispose();
+            assignRef(ref, null);
+        };
 
         // reinitialize only on demand
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [JSON.stringify({ commands, options })]);
 };
+
+const assignRef = <T,>(ref: React.Ref<T>, value: T | null) => {
+    if (ref instanceof Function) {
+        ref(value);
+    } else if (isRefObject(ref)) {
+        ref.current = value as T;
+    }
+};
@@ -1,25 +1,33 @@
 import { KeyboardShortcuts } from './keyboard';
 import { buildInCommands } from './commands';
 import { Cursor } from './Cursor';
+import { TextBuffer } from './TextBuffer';
+import { attachHistory } from './history';
 import {
     properLineRemoveBehaviorExtension,
     indentExtension,
+    tableExtension,
+    snippetExtension,
+    historyExtension,
     linkPasteExtension,
     prefixWrappingExtension,
     orderedListAutoCorrectExtension,
+    listRenumberExtension,
 } from './extensions';
 import {
     Command,
     CommandConfig,
+    CommandHandlerContext,
     CommandTrigger,
     defaultTextareaMarkdownOptions,
     TextareaMarkdownOptions,
     BUILT_IN_COMMANDS,
+    TextBufferCommand,
 } from './types';
 import { findLast } from './utils';
 
-type BootstrapConfig = {
-    commands?: Command[];
+type BootstrapConfig<TCommand = Command> = {
+    commands?: TCommand[];
     options?: Partial<TextareaMarkdownOptions>;
 };
 
@@ -29,24 +37,7 @@ export const bootstrapTextareaMarkdown = (textarea: HTMLTextAreaElement, config:
 
     const commands = mergedCommandsList(config.commands);
     const options = { ...defaultTextareaMarkdownOptions, ...config.options };
-
-    const trigger: CommandTrigger = (name, ...args) => {
-        const command = findLast(commands, (c) => c.name === name);
-        const keyEvent = isKeyboardArg(args[0]) ? args[0].keyEvent : undefined;
-        const handlerArgs = isKeyboardArg(args[0]) ? [] : args;
-
-        if (!command) {
-            throw new TypeError(`Command with name "${name}" is not defined`);
-        }
-
-        // ! disabled only if `false`
-        if (command.enable === false) {
-            return;
-        }
-
-        textarea.focus();
-        command.handler({ textarea, keyEvent, options, cursor }, ...(handlerArgs ?? []));
-    };
+    const trigger = createTrigger({ commands, options, cursor, textarea });
 
     // subscribe on shortcuts
     commands.forEach((command) => {
@@ -62,11 +53,15 @@ export const bootstrapTextareaMarkdown = (textarea: HTMLTextAreaElement, config:
 
     // bootstrap extensions if enabled, extension can optionally returns a cleanup function, which will be called inside dispose
     const extensions = [
+        options.enableHistory && historyExtension(textarea, options),
+        options.enableSnippetExtension && snippetExtension(textarea, options),
+        options.enableTableExtension && tableExtension(textarea, options),
         options.enableIndentExtension && indentExtension(textarea, options),
         options.enableLinkPasteExtension && linkPasteExtension(textarea, options),
         options.enablePrefixWrappingExtension && prefixWrappingExtension(textarea, options),
         options.enableProperLineRemoveBehaviorExtension && properLineRemoveBehaviorExtension(textarea, options),
         options.enableOrderedListAutoCorrectExtension && orderedListAutoCorrectExtension(textarea, options),
+        options.enableListRenumberExtension && listRenumberExtension(textarea, options),
     ];
 
     // unsubscribe from all listeners
@@ -82,6 +77,55 @@ export const bootstrapTextareaMarkdown = (textarea: HTMLTextAreaElement, config:
     };
 };
 
+/**
+ * Allows to run commands against any text buffer without DOM, e.g. on the server side or in workers.
+ * Shortcuts and extensions are not available, since there are no keyboard events
+ */
+export const bootstrapTextBuffer = (buffer: TextBuffer, config: BootstrapConfig<TextBufferCommand> = {}) => {
+    const cursor = new Cursor(buffer);
+    const commands = mergedCommandsList(config.commands);
+    const options = { ...defaultTextareaMarkdownOptions, ...config.options };
+    const trigger = createTrigger({ commands, options, cursor });
+
+    if (options.enableHistory) {
+        attachHistory(buffer);
+    }
+
+    return {
+        trigger,
+        cursor,
+    };
+};
+
+type CreateTriggerOptions = {
+    commands: CommandConfig[];
+    options: TextareaMarkdownOptions;
+    cursor: Cursor;
+    textarea?: HTMLTextAreaElement;
+};
+
+const createTrigger = ({ commands, options, cursor, textarea }: CreateTriggerOptions): CommandTrigger => {
+    return (name, ...args) => {
+        const command = findLast(commands, (c) => c.name === name);
+        const keyEvent = isKeyboardArg(args[0]) ? args[0].keyEvent : undefined;
+        const handlerArgs = isKeyboardArg(args[0]) ? [] : args;
+
+        if (!command) {
+            throw new TypeError(`Command with name "${name}" is not defined`);
+        }
+
+        // ! disabled only if `false`
+        if (command.enable === false) {
+            return;
+        }
+
+        textarea?.focus();
+        // there is no textarea only in `bootstrapTextBuffer`, its commands are `TextBufferCommandHandler`
+        const context = { textarea, keyEvent, options, cursor } as CommandHandlerContext;
+        command.handler(context, ...(handlerArgs ?? []));
+    };
+};
+
 const isKeyboardArg = <T>(arg: T): arg is T & { __keyboard: true; keyEvent: KeyboardEvent } => {
     return arg !== null && typeof arg === 'object' && (arg as any).__keyboard === true;
 };
@@ -102,7 +146,7 @@ const mergedCommandsList = (customCommands: Command[] = []) => {
 
             commands[commandIndex] = overrides;
         } else {
-            if (!command.handler || !(command.handler instanceof Function)) {
+            if (typeof command.handler !== 'function') {
                 throw new TypeError('Custom command should have a handler function');
             }
             commands.push(command as any);
@@ -0,0 +1,109 @@
+export type CaretRect = {
+    /** Offset from the top edge of the element, scroll position is taken into account */
+    top: number;
+
+    /** Offset from the left edge of the element, scroll position is taken into account */
+    left: number;
+    width: number;
+    height: number;
+};
+
+/** Properties which affect the text layout */
+const MIRRORED_PROPERTIES = [
+    'direction',
+    'boxSizing',
+    'width',
+    'height',
+    'overflowX',
+    'overflowY',
+
+    'borderTopWidth',
+    'borderRightWidth',
+    'borderBottomWidth',
+    'borderLeftWidth',
+    'borderStyle',
+
+    'paddingTop',
+    'paddingRight',
+    'paddingBottom',
+    'paddingLeft',
+
+    'fontStyle',
+    'fontVariant',
+    'fontWeight',
+    'fontStretch',
+    'fontSize',
+    'fontSizeAdjust',
+    'lineHeight',
+    'fontFamily',
+    'fontFeatureSettings',
+    'fontKerning',
+
+    'textAlign',
+    'textTransform',
+    'textIndent',
+    'textDecoration',
+    'letterSpacing',
+    'wordSpacing',
+    'tabSize',
+    'whiteSpace',
+    'wordBreak',
+    'overflowWrap',
+] as const;
+
+/**
+ * Render the text into a hidden element with the same layout as the textarea and measure the `[start, end)` range.
+ * Line wrapping, fonts and paddings are taken into account
+ * @returns {CaretRect[]} rect of every visual line of the range, single zero-width rect for the collapsed range
+ */
+export const measureRange = (
+    element: HTMLTextAreaElement | HTMLInputElement,
+    start: number,
+    end: number = start,
+): CaretRect[] => {
+    const { value } = element;
+    const mirror = document.createElement('div');
+    const computed = window.getComputedStyle(element);
+    const isInput = element.nodeName === 'INPUT';
+
+    for (const property of MIRRORED_PROPERTIES) {
+        mirror.style[property] = computed[property];
+    }
+
+    mirror.style.position = 'absolute';
+    mirror.style.visibility = 'hidden';
+    mirror.style.top = '0';
+    mirror.style.left = '-9999px';
+    mirror.style.overflow = 'hidden';
+    // textarea wraps long lines, input is always a single line
+    mirror.style.whiteSpace = isInput ? 'pre' : 'pre-wrap';
+    mirror.style.overflowWrap = isInput ? 'normal' : 'break-word';
+
+    const marker = document.createElement('span');
+    // zero-width space keeps the height of the line for the collapsed range
+    marker.textContent = start === end ? '\u200b' : value.slice(start, end);
+
+    mirror.appendChild(document.createTextNode(value.slice(0, start)));
+    mirror.appendChild(marker);
+    // the rest of the text affects wrapping of the last line
+    mirror.appendChild(document.createTextNode(value.slice(end) || '\u200b'));
+    document.body.appendChild(mirror);
+
+    try {
+        const origin = mirror.getBoundingClientRect();
+        const toRect = (rect: DOMRect): CaretRect => ({
+            top: rect.top - origin.top - element.scrollTop,
+            left: rect.left - origin.left - element.scrollLeft,
+            width: start === end ? 0 : rect.width,
+            height: rect.height,
+        });
+
+        if (start === end) {
+            return [toRect(marker.getBoundingClientRect())];
+        }
+
+        return Array.from(marker.getClientRects()).map(toRect);
+    } finally {
+        document.body.removeChild(mirror);
+    }
+};
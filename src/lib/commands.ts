@@ -1,15 +1,40 @@
 import {
     blockQuotesCommandHandler,
     boldCommandHandler,
+    cleanupReferencesCommandHandler,
     codeBlockCommandHandler,
     codeInlineCommandHandler,
     codeCommandHandler,
     createHeadlineCommandHandler,
+    deleteLineCommandHandler,
+    duplicateLineCommandHandler,
+    headingDecreaseCommandHandler,
+    headingIncreaseCommandHandler,
+    expandSelectionCommandHandler,
+    footnoteCommandHandler,
     imageCommandHandler,
+    insertTableCommandHandler,
     italicCommandHandler,
+    joinLinesCommandHandler,
     linkCommandHandler,
+    linkReferenceCommandHandler,
+    moveLineDownCommandHandler,
+    moveLineUpCommandHandler,
     orderedListCommandHandler,
+    redoCommandHandler,
+    renumberFootnotesCommandHandler,
+    renumberListCommandHandler,
+    selectNextOccurrenceCommandHandler,
+    shrinkSelectionCommandHandler,
     strikeThroughCommandHandler,
+    tableAddColumnCommandHandler,
+    tableAddRowCommandHandler,
+    tableAlignColumnCommandHandler,
+    tableDeleteColumnCommandHandler,
+    tableDeleteRowCommandHandler,
+    taskListCommandHandler,
+    toggleTaskCommandHandler,
+    undoCommandHandler,
     unorderedListCommandHandler,
 } from './handlers';
 import { CommandConfig } from './types';
@@ -30,6 +55,22 @@ export const buildInCommands: CommandConfig[] = [
         name: 'link',
         handler: linkCommandHandler,
     },
+    {
+        name: 'link-reference',
+        handler: linkReferenceCommandHandler,
+    },
+    {
+        name: 'cleanup-references',
+        handler: cleanupReferencesCommandHandler,
+    },
+    {
+        name: 'footnote',
+        handler: footnoteCommandHandler,
+    },
+    {
+        name: 'renumber-footnotes',
+        handler: renumberFootnotesCommandHandler,
+    },
     {
         name: 'image',
         handler: imageCommandHandler,
@@ -42,6 +83,10 @@ export const buildInCommands: CommandConfig[] = [
         name: 'ordered-list',
         handler: orderedListCommandHandler,
     },
+    {
+        name: 'renumber-list',
+        handler: renumberListCommandHandler,
+    },
     {
         name: 'code-block',
         handler: codeBlockCommandHandler,
@@ -87,4 +132,92 @@ export const buildInCommands: CommandConfig[] = [
         name: 'h6',
         handler: createHeadlineCommandHandler(6),
     },
+    {
+        name: 'heading-increase',
+        handler: headingIncreaseCommandHandler,
+    },
+    {
+        name: 'heading-decrease',
+        handler: headingDecreaseCommandHandler,
+    },
+    {
+        shortcut: metaCombination('d'),
+        name: 'select-next-occurrence',
+        handler: selectNextOccurrenceCommandHandler,
+    },
+    {
+        shortcut: metaCombination('z'),
+        name: 'undo',
+        handler: undoCommandHandler,
+    },
+    {
+        shortcut: [...metaCombination('shift', 'z'), 'ctrl+y'],
+        name: 'redo',
+        handler: redoCommandHandler,
+    },
+    {
+        name: 'expand-selection',
+        handler: expandSelectionCommandHandler,
+    },
+    {
+        name: 'shrink-selection',
+        handler: shrinkSelectionCommandHandler,
+    },
+    {
+        shortcut: 'alt+arrowup',
+        name: 'move-line-up',
+        handler: moveLineUpCommandHandler,
+    },
+    {
+        shortcut: 'alt+arrowdown',
+        name: 'move-line-down',
+        handler: moveLineDownCommandHandler,
+    },
+    {
+        name: 'duplicate-line',
+        handler: duplicateLineCommandHandler,
+    },
+    {
+        shortcut: metaCombination('j'),
+        name: 'join-lines',
+        handler: joinLinesCommandHandler,
+    },
+    {
+        shortcut: metaCombination('shift', 'k'),
+        name: 'delete-line',
+        handler: deleteLineCommandHandler,
+    },
+    {
+        name: 'task-list',
+        handler: taskListCommandHandler,
+    },
+    {
+        shortcut: metaCombination('enter'),
+        name: 'toggle-task',
+        handler: toggleTaskCommandHandler,
+    },
+    {
+        name: 'insert-table',
+        handler: insertTableCommandHandler,
+    },
+    {
+        name: 'table-add-row',
+        handler: tableAddRowCommandHandler,
+    },
+    {
+        name: 'table-add-column',
+        handler: tableAddColumnCommandHandler,
+    },
+    {
+        name: 'table-delete-row',
+        handler: tableDeleteRowCommandHandler,
+    },
+    {
+        name: 'table-delete-column',
+        handler: tableDeleteColumnCommandHandler,
+    },
+    {
+        name: 'table-align-column',
+        handler: tableAlignColumnCommandHandler,
+    },
 ];
@@ -0,0 +1,504 @@
+import { Line, LineIndex } from './LineIndex';
+
+type LineRange = {
+    /** Numbers of the first and the last lines of the block */
+    fromLineNumber: number;
+    toLineNumber: number;
+};
+
+export type FrontMatterBlock = LineRange & { type: 'front-matter' };
+
+export type CodeFenceBlock = LineRange & {
+    type: 'code-fence';
+
+    /** Opening fence, e.g. ` ``` ` or `~~~~` */
+    fence: string;
+
+    /** Info string of the opening fence, empty if not specified */
+    language: string;
+};
+
+export type BlockquoteBlock = LineRange & {
+    type: 'blockquote';
+
+    /** `1` for the outer quote */
+    depth: number;
+};
+
+export type ListItemBlock = LineRange & {
+    type: 'list-item';
+
+    /** `-`, `*`, `+` for bullet lists, `1.`, `1.2.`, `1)` for ordered ones */
+    marker: string;
+    ordered: boolean;
+
+    /** `1` for the top level item */
+    depth: number;
+
+    /** Number of spaces before the marker */
+    indent: number;
+};
+
+export type TableBlock = LineRange & {
+    type: 'table';
+
+    /** Row index, the header row is `0`, the delimiter row is `1` */
+    row: number;
+
+    /** Index of the cell which contains the position */
+    column: number;
+
+    /** Blockquote markers, list marker and indentation of every row, which aren't a part of the table */
+    prefixes: string[];
+};
+
+export type HeadingBlock = LineRange & {
+    type: 'heading';
+    level: number;
+    style: 'atx' | 'setext';
+};
+
+export type BlockContext =
+    FrontMatterBlock | CodeFenceBlock | BlockquoteBlock | ListItemBlock | TableBlock | HeadingBlock;
+
+export type InlineMarkType = 'code' | 'strong' | 'emphasis' | 'strike-through' | 'link';
+
+export type InlineMark = {
+    type: InlineMarkType;
+
+    /** Range of the whole span including delimiters */
+    start: number;
+    end: number;
+
+    /** Range of the span content */
+    contentStart: number;
+    contentEnd: number;
+
+    /** Opening delimiter, e.g. `**`, `_` or `` ` `` */
+    delimiter: string;
+};
+
+export type MarkdownContext = {
+    /** Blocks which contain the position, from outer to inner */
+    blocks: BlockContext[];
+
+    /** Inline spans which contain the position, from outer to inner */
+    marks: InlineMark[];
+};
+
+const FENCE_RE = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)/;
+const QUOTE_RE = /^ {0,3}> ?/;
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d+(?:\.\d+)*[.)])(\s+|$)/;
+const ATX_HEADING_RE = /^ {0,3}(#{1,6})(\s|$)/;
+const SETEXT_UNDERLINE_RE = /^ {0,3}(=+|-+)\s*$/;
+const TABLE_DELIMITER_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (text: string) => text.trim() === '';
+
+/** @returns {number} quote depth and the rest of the line */
+const stripQuotes = (text: string) => {
+    let depth = 0;
+    let match: RegExpExecArray | null;
+    while ((match = QUOTE_RE.exec(text))) {
+        depth++;
+        text = text.slice(match[0].length);
+    }
+    return { depth, text };
+};
+
+/** Fenced code, which contains the line, front matter is returned as well, since it's not a markdown either */
+const findVerbatimBlock = (lines: LineIndex, lineNumber: number): FrontMatterBlock | CodeFenceBlock | null => {
+    let lineNumberFrom = 1;
+
+    // front matter is allowed only at the very beginning of the document
+    if (lines.line(1)?.text === '---') {
+        let closing = 2;
+        while (closing <= lines.lineCount && !/^(---|\.\.\.)$/.test(lines.line(closing)!.text)) {
+            closing++;
+        }
+        if (lineNumber <= closing) {
+            return { type: 'front-matter', fromLineNumber: 1, toLineNumber: Math.min(closing, lines.lineCount) };
+        }
+        lineNumberFrom = closing + 1;
+    }
+
+    let opened: CodeFenceBlock | null = null;
+
+    // the fence is not closed until the end of the document
+    for (let current = lineNumberFrom; current <= lines.lineCount; current++) {
+        const { text } = stripQuotes(lines.line(current)!.text);
+        const match = FENCE_RE.exec(text);
+
+        if (!opened) {
+            if (current > lineNumber) {
+                return null;
+            }
+            if (match && !(match[2][0] === '`' && text.slice(match[0].length).includes('`'))) {
+                const fence = match[2];
+                opened = {
+                    type: 'code-fence',
+                    fence,
+                    language: match[3],
+                    fromLineNumber: current,
+                    toLineNumber: lines.lineCount,
+                };
+            }
+            continue;
+        }
+
+        // closing fence should be of the same char, not shorter and without info string
+        const isClosing =
+            match && match[2][0] === opened.fence[0] && match[2].length >= opened.fence.length && !match[3];
+        if (isClosing && current < lineNumber) {
+            opened = null;
+        } else if (isClosing) {
+            return { ...opened, toLineNumber: current };
+        }
+    }
+
+    return opened;
+};
+
+/** Blockquotes of all depths which contain the line */
+const findQuotes = (lines: LineIndex, lineNumber: number): BlockquoteBlock[] => {
+    const { depth } = stripQuotes(lines.line(lineNumber)!.text);
+    const depthOf = (current: number) => {
+        const line = lines.line(current);
+        return line && !isBlank(line.text) ? stripQuotes(line.text).depth : 0;
+    };
+
+    return Array.from({ length: depth }, (_, index) => {
+        let fromLineNumber = lineNumber;
+        let toLineNumber = lineNumber;
+        while (depthOf(fromLineNumber - 1) > index) fromLineNumber--;
+        while (depthOf(toLineNumber + 1) > index) toLineNumber++;
+
+        return { type: 'blockquote', depth: index + 1, fromLineNumber, toLineNumber };
+    });
+};
+
+/** @returns {number} number of the last line of the list item, nested items are included */
+const findListItemEnd = (lines: LineIndex, lineNumber: number, indent: number, quoteDepth: number) => {
+    let end = lineNumber;
+
+    for (let current = lineNumber + 1; current <= lines.lineCount; current++) {
+        const quotes = stripQuotes(lines.line(current)!.text);
+        if (quotes.depth !== quoteDepth) {
+            break;
+        }
+        if (isBlank(quotes.text)) {
+            continue;
+        }
+        // the item is continued by more indented lines
+        if (quotes.text.match(/^\s*/)![0].length <= indent) {
+            break;
+        }
+        end = current;
+    }
+
+    return end;
+};
+
+/** List items containing the line, from the outer to the inner one */
+const findListItems = (lines: LineIndex, lineNumber: number, quoteDepth: number): ListItemBlock[] => {
+    const items: ListItemBlock[] = [];
+
+    // parent item should be indented less than the already found one
+    let maxIndent = Infinity;
+
+    for (let current = lineNumber; current >= 1 && maxIndent > 0; current--) {
+        const quotes = stripQuotes(lines.line(current)!.text);
+        if (quotes.depth !== quoteDepth) {
+            break;
+        }
+        if (isBlank(quotes.text)) {
+            continue;
+        }
+
+        const indent = quotes.text.match(/^\s*/)![0].length;
+        const match = LIST_ITEM_RE.exec(quotes.text);
+
+        if (match && indent < maxIndent) {
+            const marker = match[2];
+            const ordered = /\d/.test(marker);
+            const toLineNumber = findListItemEnd(lines, current, indent, quoteDepth);
+            items.unshift({
+                type: 'list-item',
+                marker,
+                ordered,
+                depth: 0,
+                indent,
+                fromLineNumber: current,
+                toLineNumber,
+            });
+            maxIndent = indent;
+        } else if (!match && indent === 0) {
+            // not indented paragraph ends the list, except the lazy continuation of the item itself
+            const previous = lines.line(current - 1);
+            const isLazyContinuation = current === lineNumber && previous !== null && !isBlank(previous.text);
+            if (!isLazyContinuation) {
+                break;
+            }
+        }
+    }
+
+    return items.map((item, index) => ({ ...item, depth: index + 1 }));
+};
+
+/** Blockquote markers and the indentation, a list marker is allowed on the header row only */
+const TABLE_PREFIX_RE = /^(?: {0,3}> ?)*\s*/;
+const TABLE_HEADER_PREFIX_RE = /^(?: {0,3}> ?)*\s*(?:(?:[-*+]|\d+(?:\.\d+)*[.)])\s+)?/;
+
+/** @returns {number} count of cells in the row, leading and trailing pipes are optional */
+const countTableCells = (text: string) => {
+    const trimmed = text.trim();
+    const pipes = (trimmed.match(/(?<!\\)\|/g) ?? []).length;
+    return pipes + 1 - (trimmed.startsWith('|') ? 1 : 0) - (/.(?<!\\)\|$/.test(trimmed) ? 1 : 0);
+};
+
+const findTable = (lines: LineIndex, lineNumber: number, position: number): TableBlock | null => {
+    const current = lines.line(lineNumber)!;
+    const depth = stripQuotes(current.text).depth;
+
+    /** Container prefix and the rest of the row, `null` if the line can't be a row of the table */
+    const splitRow = (number: number, header = false) => {
+        const line = lines.line(number);
+        if (!line || stripQuotes(line.text).depth !== depth) {
+            return null;
+        }
+        const prefix = (header ? TABLE_HEADER_PREFIX_RE : TABLE_PREFIX_RE).exec(line.text)![0];
+        const text = line.text.slice(prefix.length);
+        // the next list item ends the table
+        if (
+            isBlank(text) ||
+            !text.includes('|') ||
+            (!header && LIST_ITEM_RE.test(text) && !TABLE_DELIMITER_RE.test(text))
+        ) {
+            return null;
+        }
+        return { prefix, text };
+    };
+
+    const isDelimiterRow = (number: number) => {
+        const delimiter = splitRow(number);
+        const header = splitRow(number - 1, true);
+        return (
+            delimiter !== null &&
+            header !== null &&
+            TABLE_DELIMITER_RE.test(delimiter.text) &&
+            countTableCells(delimiter.text) === countTableCells(header.text)
+        );
+    };
+
+    // the table is anchored by the delimiter row, so lines above the header aren't merged into it
+    let delimiterLineNumber = isDelimiterRow(lineNumber + 1) ? lineNumber + 1 : lineNumber;
+    while (!isDelimiterRow(delimiterLineNumber)) {
+        if (!splitRow(delimiterLineNumber)) {
+            return null;
+        }
+        delimiterLineNumber--;
+    }
+
+    const fromLineNumber = delimiterLineNumber - 1;
+    let toLineNumber = Math.max(lineNumber, delimiterLineNumber);
+    while (splitRow(toLineNumber + 1)) {
+        toLineNumber++;
+    }
+
+    const prefixes = Array.from(
+        { length: toLineNumber - fromLineNumber + 1 },
+        (_, index) => splitRow(fromLineNumber + index, index === 0)!.prefix,
+    );
+
+    // count unescaped pipes before the position, the leading one doesn't start a cell
+    const row = lineNumber - fromLineNumber;
+    const text = current.text.slice(prefixes[row].length);
+    const before = text.slice(0, Math.max(0, position - current.startsAt - prefixes[row].length));
+    const pipes = (before.match(/(?<!\\)\|/g) ?? []).length;
+    const column = Math.max(0, text.startsWith('|') ? pipes - 1 : pipes);
+
+    return { type: 'table', row, column, prefixes, fromLineNumber, toLineNumber };
+};
+
+const findHeading = (lines: LineIndex, lineNumber: number, text: string): HeadingBlock | null => {
+    const atx = ATX_HEADING_RE.exec(text);
+    if (atx) {
+        return {
+            type: 'heading',
+            level: atx[1].length,
+            style: 'atx',
+            fromLineNumber: lineNumber,
+            toLineNumber: lineNumber,
+        };
+    }
+
+    const next = lines.line(lineNumber + 1);
+    const underline = next && SETEXT_UNDERLINE_RE.exec(stripQuotes(next.text).text);
+    if (underline && !isBlank(text) && !LIST_ITEM_RE.test(text)) {
+        const level = underline[1][0] === '=' ? 1 : 2;
+        return { type: 'heading', level, style: 'setext', fromLineNumber: lineNumber, toLineNumber: lineNumber + 1 };
+    }
+
+    return null;
+};
+
+/**
+ * Replace the characters in range with `\0` by default, so they are skipped by the following searches but offsets are kept
+ */
+const mask = (text: string, start: number, end: number, char = '\0') =>
+    text.slice(0, start) + char.repeat(end - start) + text.slice(end);
+
+/** Masked delimiters of the outer spans are a part of the content for the inner ones, e.g. `_**text**_` */
+const DELIMITER_MASK = '\u0001';
+
+const isWhitespace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+/** Masked code and delimiters stand for the punctuation they've replaced */
+const isPunctuation = (char: string | undefined) =>
+    char !== undefined && (char === DELIMITER_MASK || /[\p{P}\p{S}\0]/u.test(char));
+
+/**
+ * CommonMark flanking rules of the delimiter run, `_` can't open or close a span inside a word, e.g. `snake_case`
+ * @returns {object} if the run can open and close a span
+ */
+export const flanking = (text: string, start: number, end: number) => {
+    const before = text[start - 1];
+    const after = text[end];
+    const left = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+    const right = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+    if (text[start] !== '_') {
+        return { open: left, close: right };
+    }
+    return { open: left && (!right || isPunctuation(before)), close: right && (!left || isPunctuation(after)) };
+};
+
+/** @returns {number} end of the closing delimiter, `-1` if the span isn't closed before the masked code */
+const findClosingDelimiter = (text: string, from: number, delimiter: string) => {
+    for (let index = from; index <= text.length - delimiter.length; index++) {
+        if (text[index] === '\0') {
+            return -1;
+        }
+        if (
+            index > from &&
+            text.startsWith(delimiter, index) &&
+            flanking(text, index, index + delimiter.length).close
+        ) {
+            return index + delimiter.length;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Find inline spans of the line which contain the position, all spans of the line without it
+ */
+export const findInlineMarks = (line: Line, position?: number): InlineMark[] => {
+    const offset = position === undefined ? null : position - line.startsAt;
+    const marks: InlineMark[] = [];
+    let text = line.text;
+
+    const add = (type: InlineMarkType, start: number, end: number, delimiter: string, closing = delimiter) => {
+        if (offset === null || (start < offset && offset < end)) {
+            marks.push({
+                type,
+                start: line.startsAt + start,
+                end: line.startsAt + end,
+                contentStart: line.startsAt + start + delimiter.length,
+                contentEnd: line.startsAt + end - closing.length,
+                delimiter,
+            });
+        }
+    };
+
+    // code spans go first, since other markup is not parsed inside of them
+    for (const match of text.matchAll(/(?<!`)(`+)(?!`)([\s\S]*?[^`])\1(?!`)/g)) {
+        add('code', match.index!, match.index! + match[0].length, match[1]);
+        text = mask(text, match.index!, match.index! + match[0].length);
+    }
+
+    for (const match of text.matchAll(/!?\[([^\]\0]*)\]\(([^)\0]*)\)/g)) {
+        const delimiter = match[0].startsWith('!') ? '![' : '[';
+        const end = match.index! + match[0].length;
+        add('link', match.index!, end, delimiter, `](${match[2]})`);
+        // destination isn't a text, so it can't contain delimiters, e.g. `[docs](https://a.com/some_page_name)`
+        text = mask(text, end - match[2].length - 1, end - 1, DELIMITER_MASK);
+    }
+
+    const emphasis: [string[], InlineMarkType[]][] = [
+        [
+            ['***', '___'],
+            ['strong', 'emphasis'],
+        ],
+        [['**', '__'], ['strong']],
+        [['~~'], ['strike-through']],
+        [['*', '_'], ['emphasis']],
+    ];
+
+    for (const [delimiters, types] of emphasis) {
+        for (let start = 0; start < text.length; start++) {
+            const delimiter = delimiters.find((delimiter) => text.startsWith(delimiter, start));
+            if (!delimiter || !flanking(text, start, start + delimiter.length).open) {
+                continue;
+            }
+
+            const end = findClosingDelimiter(text, start + delimiter.length, delimiter);
+            if (end === -1) {
+                continue;
+            }
+
+            if (types.length === 2) {
+                // `***text***` is an emphasis inside a strong one
+                add('strong', start, end, delimiter.slice(0, 2));
+                add('emphasis', start + 2, end - 2, delimiter[0]);
+            } else {
+                add(types[0], start, end, delimiter);
+            }
+
+            // only delimiters are masked, so the content can be matched by the following patterns
+            text = mask(
+                mask(text, start, start + delimiter.length, DELIMITER_MASK),
+                end - delimiter.length,
+                end,
+                DELIMITER_MASK,
+            );
+            start = end - 1;
+        }
+    }
+
+    // outer spans start earlier
+    return marks.sort((a, b) => a.start - b.start || b.end - a.end);
+};
+
+/**
+ * Describe markdown structure around the position
+ */
+export const getMarkdownContext = (lines: LineIndex, position: number): MarkdownContext => {
+    const line = lines.lineAtPosition(position);
+    const verbatim = findVerbatimBlock(lines, line.lineNumber);
+    const quotes = stripQuotes(line.text);
+    const quoteBlocks = findQuotes(lines, line.lineNumber);
+
+    if (verbatim?.type === 'front-matter') {
+        return { blocks: [verbatim], marks: [] };
+    }
+
+    if (verbatim) {
+        return {
+            blocks: [...quoteBlocks, ...findListItems(lines, verbatim.fromLineNumber, quotes.depth), verbatim],
+            marks: [],
+        };
+    }
+
+    const blocks: BlockContext[] = [...quoteBlocks, ...findListItems(lines, line.lineNumber, quotes.depth)];
+    const table = findTable(lines, line.lineNumber, position);
+    const heading = findHeading(lines, line.lineNumber, quotes.text);
+
+    if (table) {
+        blocks.push(table);
+    } else if (heading) {
+        blocks.push(heading);
+    }
+
+    return { blocks, marks: findInlineMarks(line, position) };
+};
@@ -0,0 +1,86 @@
+import { getMarkdownContext } from './context';
+import { LineIndex } from './LineIndex';
+import { snapRangeToGraphemes, snapToGrapheme } from './graphemes';
+
+type Range = { start: number; end: number };
+
+/** Combining marks are a part of the word, e.g. decomposed accents */
+const WORD_CHAR_RE = /^[\p{L}\p{N}\p{M}_]$/u;
+
+/** @returns {string} code point which ends at the position */
+const codePointBefore = (text: string, position: number) => {
+    const code = text.charCodeAt(position - 1);
+    const isLowSurrogate = code >= 0xdc00 && code <= 0xdfff && position >= 2;
+    return text.slice(isLowSurrogate ? position - 2 : position - 1, position);
+};
+
+/** @returns {string} code point which starts at the position */
+const codePointAt = (text: string, position: number) => String.fromCodePoint(text.codePointAt(position)!);
+
+/** @returns {Range} range of the word which contains the position or `null` if there is no word */
+export const wordRangeAt = (text: string, position: number): Range | null => {
+    let start = snapToGrapheme(text, position);
+    let end = start;
+
+    while (start > 0 && WORD_CHAR_RE.test(codePointBefore(text, start))) {
+        start -= codePointBefore(text, start).length;
+    }
+    while (end < text.length && WORD_CHAR_RE.test(codePointAt(text, end))) {
+        end += codePointAt(text, end).length;
+    }
+
+    return start === end ? null : snapRangeToGraphemes(text, start, end);
+};
+
+/**
+ * Ranges which contain the range, from the smallest to the largest one:
+ * word → inline markup span → line → paragraph → list item and other blocks → the whole text
+ */
+export const getExpansionRanges = (lines: LineIndex, range: Range): Range[] => {
+    const text = lines.value;
+    const candidates: Range[] = [];
+    const linesRange = (fromLineNumber: number, toLineNumber: number): Range => ({
+        start: lines.line(fromLineNumber)!.startsAt,
+        end: lines.line(toLineNumber)!.endsAt,
+    });
+
+    const word = wordRangeAt(text, range.start);
+    if (word) {
+        candidates.push(word);
+    }
+
+    const { blocks, marks } = getMarkdownContext(lines, range.start);
+    for (const mark of marks) {
+        candidates.push({ start: mark.contentStart, end: mark.contentEnd }, { start: mark.start, end: mark.end });
+    }
+
+    // line content without indentation goes before the whole line
+    const line = lines.lineAtPosition(range.start);
+    const indent = line.text.match(/^\s*/)![0].length;
+    candidates.push({ start: line.startsAt + indent, end: line.endsAt }, linesRange(line.lineNumber, line.lineNumber));
+
+    const isBlank = (lineNumber: number) => !lines.line(lineNumber)?.text.trim();
+    if (!isBlank(line.lineNumber)) {
+        let fromLineNumber = line.lineNumber;
+        let toLineNumber = line.lineNumber;
+        while (fromLineNumber > 1 && !isBlank(fromLineNumber - 1)) fromLineNumber--;
+        while (toLineNumber < lines.lineCount && !isBlank(toLineNumber + 1)) toLineNumber++;
+        candidates.push(linesRange(fromLineNumber, toLineNumber));
+    }
+
+    for (const block of blocks) {
+        // code without fences goes first
+        if (block.type === 'code-fence' && block.toLineNumber - block.fromLineNumber > 1) {
+            candidates.push(linesRange(block.fromLineNumber + 1, block.toLineNumber - 1));
+        }
+        candidates.push(linesRange(block.fromLineNumber, block.toLineNumber));
+    }
+
+    candidates.push({ start: 0, end: text.length });
+
+    const length = range.end - range.start;
+    return candidates
+        .filter((candidate) => candidate.start <= range.start && candidate.end >= range.end)
+        .filter((candidate) => candidate.end - candidate.start > length)
+        .sort((a, b) => a.end - a.start - (b.end - b.start));
+};
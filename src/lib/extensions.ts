@@ -1,8 +1,19 @@
 import { Extension, PrefixWrappingConfig } from './types';
-import { escapeRegExp, getIncrementedOrderedListPrefix, isBtwOrEq, isImageURL, isURL, metaCombination } from './utils';
+import {
+    diffRange,
+    escapeRegExp,
+    getIncrementedOrderedListPrefix,
+    isBtwOrEq,
+    isImageURL,
+    isURL,
+    metaCombination,
+} from './utils';
 
 import { Cursor } from './Cursor';
 import { KeyboardShortcuts } from './keyboard';
+import { toTextBuffer } from './TextBuffer';
+import { attachHistory, detachHistory, getHistory } from './history';
+import { updateTable } from './table';
 
 /**
  * Handle the paste event, if the pasted text is a URL and something is selected, it will be converted to link/image markup.
@@ -65,14 +76,122 @@ export const linkPasteExtension: Extension = (textarea) => {
 };
 
 /**
- * Handle `tab`/`shift+tab` combination. Will insert or remove an intend depends on selection
+ * Handle `tab`/`shift+tab` combination while snippet is active. Will move selection between snippet tab stops,
+ * `escape` will finish the snippet.
+ * @note should be bootstrapped before other `tab` handlers, since it stops the event propagation
  */
-export const indentExtension: Extension = (textarea) => {
+export const snippetExtension: Extension = (textarea) => {
+    const keyboard = new KeyboardShortcuts(textarea);
+    const cursor = new Cursor(textarea);
+
+    const navigate = (event: KeyboardEvent, moved: boolean) => {
+        if (moved) {
+            event.preventDefault();
+            event.stopImmediatePropagation();
+        }
+    };
+
+    keyboard.bind('tab', (event) => navigate(event, cursor.nextTabStop()));
+    keyboard.bind('shift+tab', (event) => navigate(event, cursor.previousTabStop()));
+    keyboard.bind('escape', () => cursor.exitSnippet());
+
+    return () => keyboard.reset();
+};
+
+/**
+ * Record all changes of the textarea into the library-managed history, which is used by `undo`/`redo` commands
+ */
+export const historyExtension: Extension = (textarea) => {
+    const buffer = toTextBuffer(textarea);
+    const history = attachHistory(buffer);
+
+    // changes made by the Cursor are recorded by itself, the rest is typing
+    const onInput = () => history.sync();
+    textarea.addEventListener('input', onInput);
+
+    return () => {
+        textarea.removeEventListener('input', onInput);
+        detachHistory(buffer);
+    };
+};
+
+/**
+ * Handle `tab`/`shift+tab` and `enter` inside of a table. Tab moves to the next cell and selects its content,
+ * a row is appended after the last cell or on `enter` in the last row. Table is re-formatted on every move
+ * @note should be bootstrapped before `indentExtension` and `prefixWrappingExtension`, since it stops the event propagation
+ */
+export const tableExtension: Extension = (textarea) => {
+    const keyboard = new KeyboardShortcuts(textarea);
+    const cursor = new Cursor(textarea);
+
+    const handle = (event: KeyboardEvent, update: Parameters<typeof updateTable>[1]) => {
+        // multiline selection is indented as usual
+        if ((cursor.selection?.lines.length ?? 1) > 1) {
+            return;
+        }
+
+        if (updateTable(cursor, update, { selectContent: true })) {
+            event.preventDefault();
+            event.stopImmediatePropagation();
+        }
+    };
+
+    keyboard.bind('tab', (event) =>
+        handle(event, (table, { row, column }) => {
+            // delimiter row is skipped
+            const current = row === 1 ? 0 : row;
+            if (column < table.header.length - 1) {
+                return { row: current, column: column + 1 };
+            }
+
+            const next = current === 0 ? 2 : current + 1;
+            if (next > table.rows.length + 1) {
+                table.rows.push(Array<string>(table.header.length).fill(''));
+            }
+            return { row: next, column: 0 };
+        }),
+    );
+
+    keyboard.bind('shift+tab', (event) =>
+        handle(event, (table, { row, column }) => {
+            const current = row === 1 ? 0 : row;
+            if (column > 0) {
+                return { row: current, column: column - 1 };
+            }
+            if (current === 0) {
+                return { row: 0, column: 0 };
+            }
+            return { row: current === 2 ? 0 : current - 1, column: table.header.length - 1 };
+        }),
+    );
+
+    keyboard.bind('enter', (event) =>
+        handle(event, (table, { row }) => {
+            if (row !== table.rows.length + 1) {
+                return null;
+            }
+            table.rows.push(Array<string>(table.header.length).fill(''));
+            return { row: row + 1, column: 0 };
+        }),
+    );
+
+    return () => keyboard.reset();
+};
+
+/**
+ * Handle `tab`/`shift+tab` combination. Will insert or remove an intend depends on selection.
+ * List items are nested under the previous item or moved to the level of the parent item instead
+ */
+export const indentExtension: Extension = (textarea, options) => {
     const keyboard = new KeyboardShortcuts(textarea);
     const cursor = new Cursor(textarea);
 
     keyboard.bind('tab', (event) => {
         event?.preventDefault();
+        if (cursor.indentListItems({ cycleMarkers: options.cycleListMarkers })) {
+            return;
+        }
+
         const indent = ' '.repeat(4);
 
         if (!cursor.selection) {
@@ -86,6 +205,10 @@ export const indentExtension: Extension = (textarea) => {
 
     keyboard.bind('shift+tab', (event) => {
         event?.preventDefault();
+        if (cursor.indentListItems({ outdent: true, cycleMarkers: options.cycleListMarkers })) {
+            return;
+        }
+
         cursor.replaceCurrentLines((line) => line.text.replace(/\s{0,4}/, ''), {
             // select lines if something was selected
             selectReplaced: Boolean(cursor.selection),
@@ -113,6 +236,16 @@ export const prefixWrappingExtension: Extension = (textarea, options) => {
     const customConfigs = options.customPrefixWrapping.map(toConfig);
 
     const buildInConfigs: PrefixWrappingConfig[] = [
+        {
+            // task items are continued with unchecked box, so they go before regular lists
+            prefixPattern: /([-*+]|(\d+\.){1,2})\s+\[[ xX]\](\s+|$)/,
+            prefix: (line) => {
+                const marker = /^\s*([-*+]|(?:\d+\.){1,2})\s/.exec(line.text)?.[1] ?? '-';
+                return `${/\d/.test(marker) ? getIncrementedOrderedListPrefix(marker) : marker} [ ] `;
+            },
+            shouldBreakIfEmpty: true,
+            shouldSaveIndent: true,
+        },
         {
             prefixPattern: /[-*]\s+/,
             prefix: (line) => {
@@ -133,8 +266,12 @@ export const prefixWrappingExtension: Extension = (textarea, options) => {
 
     const configs = [...customConfigs, ...buildInConfigs];
 
+    // prefix insertion that is waiting for the native line break
+    let pendingInputListener: (() => void) | null = null;
+
     const keydownListener = (event: KeyboardEvent) => {
-        if (event.code !== 'Enter') {
+        // modified Enter is reserved for commands, e.g. `toggle-task`
+        if (event.code !== 'Enter' || event.ctrlKey || event.metaKey || event.altKey) {
             return;
         }
 
@@ -142,6 +279,12 @@ export const prefixWrappingExtension: Extension = (textarea, options) => {
         // entering line – is line on which the Enter was pressed
         const enteringLine = cursor.lineAt(cursor.position.line.lineNumber)!;
 
+        // code and front matter are not a markdown
+        const { blocks } = cursor.context();
+        if (blocks.some(({ type }) => type === 'code-fence' || type === 'front-matter')) {
+            return;
+        }
+
         const strictConfigs = configs.map((config) => {
             const prefix = config.prefix instanceof Function ? config.prefix(enteringLine) : config.prefix;
             const pattern = ensureRegExp(config.prefixPattern ?? prefix);
@@ -178,15 +321,22 @@ export const prefixWrappingExtension: Extension = (textarea, options) => {
             // Use input event to ensure newline exists before inserting prefix (fixes Firefox race condition)
             const prefixToInsert = `${indent}${prefix}${Cursor.MARKER}`;
 
-            textarea.addEventListener('input', function() {
+            pendingInputListener = () => {
+                pendingInputListener = null;
                 cursor.insert(prefixToInsert);
-            }, { once: true });
+            };
+            textarea.addEventListener('input', pendingInputListener, { once: true });
         }
     };
 
     textarea.addEventListener('keydown', keydownListener);
 
-    return () => textarea.removeEventListener('keydown', keydownListener);
+    return () => {
+        textarea.removeEventListener('keydown', keydownListener);
+        if (pendingInputListener) {
+            textarea.removeEventListener('input', pendingInputListener);
+        }
+    };
 };
 
 export const properLineRemoveBehaviorExtension: Extension = (textarea) => {
@@ -235,3 +385,28 @@ export const orderedListAutoCorrectExtension: Extension = (textarea) => {
     textarea.addEventListener('keydown', handler);
     return () => textarea.removeEventListener('keydown', handler);
 };
+
+/**
+ * Keep ordered lists sequential after every change: new items, deleted lines, indentation and paste.
+ * Only lists around the changed region are renumbered
+ */
+export const listRenumberExtension: Extension = (textarea) => {
+    const cursor = new Cursor(textarea);
+    let value = textarea.value;
+
+    const onInput = () => {
+        const previous = value;
+        value = textarea.value;
+        // undo and redo restore the numbers as they were, renumbering would drop the redo stack
+        if (previous === value || getHistory(toTextBuffer(textarea))?.isRestoring) {
+            return;
+        }
+
+        // renumbering fires its own input, which has nothing to renumber
+        const { start, nextEnd } = diffRange(previous, value);
+        cursor.renumberLists(start, nextEnd);
+    };
+
+    textarea.addEventListener('input', onInput);
+    return () => textarea.removeEventListener('input', onInput);
+};
@@ -0,0 +1,90 @@
+import { clamp, findLast } from './utils';
+
+type Segmenter = {
+    segment(text: string): Iterable<{ index: number }>;
+};
+
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'grapheme' }) => Segmenter;
+
+/** Grapheme clusters are much shorter, so only the text around the position is segmented */
+const WINDOW_SIZE = 128;
+
+/**
+ * Approximation of grapheme clusters for environments without `Intl.Segmenter`:
+ * CRLF, surrogate pairs, combining marks, variation selectors, skin tones, flags and ZWJ sequences
+ */
+const FALLBACK_CLUSTER_RE =
+    /\r\n|(?:\p{Regional_Indicator}{2}|[\s\S])(?:[\p{M}\uFE0E\uFE0F]|\p{Emoji_Modifier}|\u200D(?:\p{Regional_Indicator}{2}|[\s\S]))*/gu;
+
+let segmenter: Segmenter | null | undefined;
+
+const getSegmenter = (): Segmenter | null => {
+    if (segmenter === undefined) {
+        const { Segmenter } = Intl as unknown as { Segmenter?: SegmenterConstructor };
+        segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+    }
+    return segmenter;
+};
+
+/** @returns {number[]} offsets of all grapheme cluster starts, the text length is included as well */
+export const graphemeBoundaries = (text: string): number[] => {
+    const boundaries: number[] = [];
+    const intlSegmenter = getSegmenter();
+
+    if (intlSegmenter) {
+        for (const { index } of intlSegmenter.segment(text)) {
+            boundaries.push(index);
+        }
+    } else {
+        for (const match of text.matchAll(FALLBACK_CLUSTER_RE)) {
+            boundaries.push(match.index!);
+        }
+    }
+
+    boundaries.push(text.length);
+    return boundaries;
+};
+
+/**
+ * Move the position to the closest grapheme boundary in the direction, so it doesn't split an emoji,
+ * a surrogate pair or a letter with combining accents
+ */
+export const snapToGrapheme = (
+    text: string,
+    position: number,
+    direction: 'backward' | 'forward' = 'backward',
+): number => {
+    if (position <= 0 || position >= text.length) {
+        return clamp(position, 0, text.length);
+    }
+
+    // fast path: nothing below combining marks can continue a cluster, except LF after CR
+    const before = text.charCodeAt(position - 1);
+    const after = text.charCodeAt(position);
+    if (after < 0x300 && !(before === 0x0d && after === 0x0a)) {
+        return position;
+    }
+
+    const from = Math.max(0, position - WINDOW_SIZE);
+    const to = Math.min(text.length, position + WINDOW_SIZE);
+    const boundaries = graphemeBoundaries(text.slice(from, to)).map((boundary) => boundary + from);
+
+    if (boundaries.includes(position)) {
+        return position;
+    }
+
+    return direction === 'backward'
+        ? (findLast(boundaries, (boundary) => boundary < position) ?? from)
+        : (boundaries.find((boundary) => boundary > position) ?? to);
+};
+
+/**
+ * Expand the range to the grapheme boundaries, collapsed range is moved backward
+ */
+export const snapRangeToGraphemes = (text: string, start: number, end: number) => {
+    if (start === end) {
+        const position = snapToGrapheme(text, start);
+        return { start: position, end: position };
+    }
+    return { start: snapToGrapheme(text, start, 'backward'), end: snapToGrapheme(text, end, 'forward') };
+};
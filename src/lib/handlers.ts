@@ -1,19 +1,205 @@
-import { CommandHandler } from './types';
-import { clamp, escapeRegExp } from './utils';
-import { Cursor } from './Cursor';
+import { TextareaMarkdownOptions, TextBufferCommandHandler } from './types';
+import { clamp, escapeRegExp, findLast } from './utils';
+import { Cursor, Line, SelectRange, Transaction } from './Cursor';
+import { CodeFenceBlock, findInlineMarks, flanking, HeadingBlock, InlineMark } from './context';
+import { snapRangeToGraphemes } from './graphemes';
+import {
+    formatReferenceDefinitions,
+    getFootnotes,
+    getReferenceBlockLines,
+    getReferenceDefinitions,
+    getUsedReferenceLabels,
+    isReferenceBlockLine,
+    nextReferenceLabel,
+    normalizeReferenceLabel,
+} from './references';
+import { ColumnAlignment, formatTable, tableCellRange, updateTable } from './table';
 
-export const boldCommandHandler: CommandHandler = ({ cursor, options: { preferredBoldSyntax, boldPlaceholder } }) => {
-    cursor.wrap(preferredBoldSyntax, { placeholder: boldPlaceholder });
+/**
+ * Markup is not parsed inside code spans, so the whole span is selected to be wrapped instead
+ */
+const selectEnclosingCodeSpan = (cursor: Cursor) => {
+    const ranges = cursor.ranges;
+    if (ranges.length > 1) {
+        return;
+    }
+
+    const [{ start, end }] = ranges;
+    const code = cursor.context(start).marks.find((mark) => mark.type === 'code');
+    if (code && end <= code.end) {
+        cursor.select({ start: code.start, end: code.end });
+    }
+};
+
+/**
+ * Select the word under the cursor to wrap it instead of the placeholder, if enabled by `expandWrapToWord` option
+ */
+const selectWordIfEmpty = (cursor: Cursor, options: TextareaMarkdownOptions) => {
+    const ranges = cursor.ranges;
+    if (!options.expandWrapToWord || ranges.length > 1 || ranges[0].start !== ranges[0].end) {
+        return;
+    }
+
+    const word = cursor.wordAt(ranges[0].start);
+    if (word) {
+        cursor.select(word);
+    }
+};
+
+/**
+ * Span with delimiters right around the range, e.g. a code span wrapped with `**` is not parsed as a strong one
+ */
+const findAdjacentSpan = (text: string, start: number, end: number, type: 'strong' | 'emphasis'): InlineMark | null => {
+    // `**` run is a strong delimiter, but not an emphasis one
+    const run = text.slice(0, start).match(/[*_]*$/)![0].length;
+    if (start === end || (type === 'strong' ? run < 2 : run === 2)) {
+        return null;
+    }
+
+    const delimiter = (type === 'strong' ? ['**', '__'] : ['*', '_']).find(
+        (candidate) =>
+            text.slice(start - candidate.length, start) === candidate &&
+            text.startsWith(candidate, end) &&
+            flanking(text, start - candidate.length, start).open &&
+            flanking(text, end, end + candidate.length).close,
+    );
+    if (!delimiter) {
+        return null;
+    }
+
+    return {
+        type,
+        start: start - delimiter.length,
+        end: end + delimiter.length,
+        contentStart: start,
+        contentEnd: end,
+        delimiter,
+    };
+};
+
+/** @returns {InlineMark[]} spans of the type inside of the range, code and its fences are skipped */
+const findInnerSpans = (cursor: Cursor, start: number, end: number, type: InlineMark['type']): InlineMark[] =>
+    cursor.lines
+        .filter((line) => line.startsAt < end && start < line.endsAt)
+        .flatMap((line) => findInlineMarks(line))
+        .filter((mark) => mark.type === type && start <= mark.start && mark.end <= end)
+        .filter((mark) => cursor.context(mark.contentStart).marks.some(({ start }) => start === mark.start));
+
+/** @returns {string} text of the range without delimiters of the spans */
+const stripDelimiters = (text: string, start: number, end: number, spans: InlineMark[]) => {
+    const delimiters = spans
+        .flatMap((span) => [
+            [span.start, span.contentStart],
+            [span.contentEnd, span.end],
+        ])
+        .sort(([a], [b]) => a - b);
+
+    let result = '';
+    let from = start;
+    for (const [delimiterStart, delimiterEnd] of delimiters) {
+        result += text.slice(from, delimiterStart);
+        from = Math.max(from, delimiterEnd);
+    }
+    return result + text.slice(from, end);
+};
+
+/**
+ * Remove the whole span if there is a caret inside of it, otherwise only the selected parts are removed from it
+ * and the rest of the content stays wrapped
+ */
+const unwrapSpan = (tx: Transaction, text: string, span: InlineMark, ranges: SelectRange[]) => {
+    const { delimiter, contentStart, contentEnd } = span;
+    const selected = ranges
+        .map(({ start, end }) => ({
+            start: clamp(start, contentStart, contentEnd),
+            end: clamp(end, contentStart, contentEnd),
+        }))
+        .sort((a, b) => a.start - b.start);
+    // two markers keep every caret as a separate range
+    const select = ({ start, end }: SelectRange) =>
+        tx.replace(start, end, `${Cursor.MARKER}${text.slice(start, end)}${Cursor.MARKER}`);
+
+    if (ranges.some(({ start, end }) => start === end)) {
+        // cursor is kept at the same place of the content
+        tx.delete(span.start, contentStart);
+        tx.delete(contentEnd, span.end);
+        selected.forEach(select);
+        return;
+    }
+
+    const keptStarts = [contentStart, ...selected.map(({ end }) => end)];
+    const keptEnds = [...selected.map(({ start }) => start), contentEnd];
+    keptStarts.forEach((from, index) => {
+        const to = keptEnds[index];
+        const part = text.slice(from, to);
+        const content = part.trim();
+        // whitespace can't be inside of the delimiters, so it's moved out of the remaining parts
+        const wrapped = content
+            ? part.slice(0, part.length - part.trimStart().length) +
+              `${delimiter}${content}${delimiter}` +
+              part.slice(part.trimEnd().length)
+            : part;
+
+        tx.replace(index === 0 ? span.start : from, index === keptEnds.length - 1 ? span.end : to, wrapped);
+    });
+    selected.forEach(select);
+};
+
+/**
+ * Remove the enclosing span of the type, or wrap the selection if there is no one.
+ * Partially selected span is split, so only the selection loses the markup
+ */
+const toggleEmphasis = (cursor: Cursor, type: 'strong' | 'emphasis', syntax: string, placeholder: string) => {
+    const text = cursor.value;
+    // ranges inside of the same span are toggled together
+    const spans = new Map<number, { span: InlineMark; ranges: SelectRange[] }>();
+    const wrapped: { start: number; end: number; content: string }[] = [];
+
+    cursor.ranges.forEach((range) => {
+        // markup inside of a grapheme would break it
+        const { start, end } = snapRangeToGraphemes(text, range.start, range.end);
+        // position after the start is inside of the span even if the whole span is selected
+        const span =
+            findLast(
+                cursor.context(start < end ? start + 1 : start).marks,
+                (mark) => mark.type === type && mark.start <= start && end <= mark.end,
+            ) ?? findAdjacentSpan(text, start, end, type);
+
+        if (span) {
+            const group = spans.get(span.start) ?? { span, ranges: [] };
+            group.ranges.push({ start, end });
+            spans.set(span.start, group);
+            return;
+        }
+
+        // spans inside of the selection are merged into the new one, e.g. `**a** b` becomes `**a b**`
+        const content = stripDelimiters(text, start, end, findInnerSpans(cursor, start, end, type));
+        wrapped.push({ start, end, content: content || placeholder });
+    });
+
+    cursor.transaction((tx) => {
+        wrapped.forEach(({ start, end, content }) =>
+            tx.replace(start, end, `${syntax}${Cursor.MARKER}${content}${Cursor.MARKER}${syntax}`),
+        );
+        spans.forEach(({ span, ranges }) => unwrapSpan(tx, text, span, ranges));
+    });
+};
+
+export const boldCommandHandler: TextBufferCommandHandler = ({ cursor, options }) => {
+    const { preferredBoldSyntax, boldPlaceholder } = options;
+    selectEnclosingCodeSpan(cursor);
+    selectWordIfEmpty(cursor, options);
+    toggleEmphasis(cursor, 'strong', preferredBoldSyntax, boldPlaceholder);
 };
 
-export const italicCommandHandler: CommandHandler = ({
-    cursor,
-    options: { preferredItalicSyntax, italicPlaceholder },
-}) => {
-    cursor.wrap(preferredItalicSyntax, { placeholder: italicPlaceholder });
+export const italicCommandHandler: TextBufferCommandHandler = ({ cursor, options }) => {
+    const { preferredItalicSyntax, italicPlaceholder } = options;
+    selectEnclosingCodeSpan(cursor);
+    selectWordIfEmpty(cursor, options);
+    toggleEmphasis(cursor, 'emphasis', preferredItalicSyntax, italicPlaceholder);
 };
 
-export const linkCommandHandler: CommandHandler = ({ options, cursor }) => {
+export const linkCommandHandler: TextBufferCommandHandler = ({ options, cursor }) => {
     const { linkTextPlaceholder, linkUrlPlaceholder } = options;
 
     const linkText = cursor.selection?.text || linkTextPlaceholder;
@@ -21,7 +207,184 @@ export const linkCommandHandler: CommandHandler = ({ options, cursor }) => {
     cursor.insert(`[${linkText}](${Cursor.MARKER}${linkUrl}${Cursor.MARKER})`);
 };
 
-export const imageCommandHandler: CommandHandler = ({ options, cursor }) => {
+/**
+ * Delete lines with their line breaks. Blank line around the removed ones is removed too,
+ * so paragraphs stay separated by a single one
+ */
+const deleteLines = (cursor: Cursor, tx: Transaction, lines: Line[]) => {
+    const runs: Line[][] = [];
+    lines.forEach((line) => {
+        const run = runs[runs.length - 1];
+        if (run && run[run.length - 1].lineNumber === line.lineNumber - 1) {
+            run.push(line);
+        } else {
+            runs.push([line]);
+        }
+    });
+
+    runs.forEach((run) => {
+        const first = run[0];
+        const last = run[run.length - 1];
+        const previous = cursor.lineAt(first.lineNumber - 1);
+        const next = cursor.lineAt(last.lineNumber + 1);
+
+        if (!next || cursor.lines.slice(last.lineNumber).every((line) => !line.text.trim())) {
+            // lines at the end are removed with the preceding line breaks
+            let content = previous;
+            while (content && !content.text.trim()) {
+                content = cursor.lineAt(content.lineNumber - 1);
+            }
+            tx.delete(content?.endsAt ?? 0, last.endsAt);
+            return;
+        }
+
+        const blankAround = !previous?.text.trim() && !next.text.trim();
+        const afterBlank = cursor.lineAt(next.lineNumber + 1);
+        tx.delete(first.startsAt, blankAround ? (afterBlank?.startsAt ?? next.endsAt) : next.startsAt);
+    });
+};
+
+/**
+ * Insert a reference link `[text][label]` and append its definition to the end of the document.
+ * Label of an existing definition is reused for the same url, the url placeholder is selected if the url is not passed
+ */
+export const linkReferenceCommandHandler: TextBufferCommandHandler<[url: string]> = ({ options, cursor }, url) => {
+    const { linkTextPlaceholder, linkUrlPlaceholder } = options;
+    const lines = cursor.lines;
+    const definitions = getReferenceDefinitions(lines);
+    const existing = url ? definitions.find((definition) => definition.url === url) : undefined;
+    const label = existing?.label ?? nextReferenceLabel(definitions);
+
+    const position = cursor.position.cursorAt;
+    // markup inside of a grapheme would break it
+    const { start, end } = snapRangeToGraphemes(
+        cursor.value,
+        cursor.selection?.selectionStart ?? position,
+        cursor.selection?.selectionEnd ?? position,
+    );
+    const linkText = cursor.value.slice(start, end) || linkTextPlaceholder;
+
+    if (existing) {
+        cursor.transaction((tx) => tx.replace(start, end, `[${linkText}][${label}]${Cursor.MARKER}`));
+        return;
+    }
+
+    const link = `[${linkText}][${label}]${url ? Cursor.MARKER : ''}`;
+    const definition = `[${label}]: ${url || `${Cursor.MARKER}${linkUrlPlaceholder}${Cursor.MARKER}`}`;
+    const last = [...lines].reverse().find((line) => line.text.trim());
+    // definitions are kept together, the block is separated from the content
+    const separator = !last ? '' : isReferenceBlockLine(last) ? '\n' : '\n\n';
+
+    cursor.transaction((tx) => {
+        if (!last || end >= last.endsAt) {
+            tx.replace(start, end, `${link}${separator || '\n\n'}${definition}`);
+            return;
+        }
+        tx.replace(start, end, link);
+        tx.insert(last.endsAt, `${separator}${definition}`);
+    });
+};
+
+/**
+ * Remove unused reference definitions and gather the rest sorted by label at the end of the document.
+ * Definitions which redefine a label are marked with a comment
+ */
+export const cleanupReferencesCommandHandler: TextBufferCommandHandler = ({ cursor }) => {
+    const lines = cursor.lines;
+    const used = getUsedReferenceLabels(lines);
+    const definitions = getReferenceDefinitions(lines).filter(({ label }) => used.has(normalizeReferenceLabel(label)));
+    const last = [...lines].reverse().find((line) => !isReferenceBlockLine(line));
+    const block = formatReferenceDefinitions(definitions);
+
+    const from = last?.endsAt ?? 0;
+    const trailingLineBreak = /\r?\n$/.test(cursor.value) ? '\n' : '';
+    const tail = block.length > 0 ? `${last ? '\n\n' : ''}${block.join('\n')}${trailingLineBreak}` : trailingLineBreak;
+    // definitions from the middle of the document are moved to the block
+    const moved = getReferenceBlockLines(lines).filter((line) => line.lineNumber < (last?.lineNumber ?? 0));
+
+    if (moved.length === 0 && cursor.value.slice(from).replace(/\r\n/g, '\n') === tail) {
+        return;
+    }
+
+    cursor.transaction((tx) => {
+        deleteLines(cursor, tx, moved);
+        tx.replace(from, cursor.value.length, tail);
+    });
+};
+
+/**
+ * Insert footnote reference `[^n]` with the next free number after the selection,
+ * the definition is appended to the end of the document and the cursor is placed into it
+ */
+export const footnoteCommandHandler: TextBufferCommandHandler = ({ cursor }) => {
+    const lines = cursor.lines;
+    const { references, definitions } = getFootnotes(lines);
+    const label = nextReferenceLabel([...references, ...definitions]);
+    const { cursorAt } = cursor.position;
+    // markup inside of a grapheme would break it
+    const position = snapRangeToGraphemes(
+        cursor.value,
+        cursor.selection?.selectionStart ?? cursorAt,
+        cursor.selection?.selectionEnd ?? cursorAt,
+    ).end;
+
+    const last = [...lines].reverse().find((line) => line.text.trim());
+    // definitions are kept together, the block is separated from the content
+    const separator = last && definitions[definitions.length - 1]?.toLineNumber === last.lineNumber ? '\n' : '\n\n';
+    const definition = `${separator}[^${label}]: ${Cursor.MARKER}`;
+
+    cursor.transaction((tx) => {
+        if (!last || position >= last.endsAt) {
+            tx.insert(position, `[^${label}]${definition}`);
+            return;
+        }
+        tx.insert(position, `[^${label}]`);
+        tx.insert(last.endsAt, definition);
+    });
+};
+
+/**
+ * Renumber footnotes with numeric labels in order of the first reference, named footnotes keep their labels.
+ * Definitions which are not referenced are removed
+ */
+export const renumberFootnotesCommandHandler: TextBufferCommandHandler = ({ cursor }) => {
+    const { references, definitions } = getFootnotes(cursor.lines);
+    const used = new Set(references.map(({ label }) => label));
+    const orphans = definitions.filter(({ label }) => !used.has(label));
+    const isRemoved = (position: number) =>
+        orphans.some(
+            ({ fromLineNumber, toLineNumber }) =>
+                position >= cursor.lineAt(fromLineNumber)!.startsAt && position <= cursor.lineAt(toLineNumber)!.endsAt,
+        );
+
+    const numbers = new Map<string, string>();
+    references.forEach(({ label }) => {
+        if (/^\d+$/.test(label) && !numbers.has(label)) {
+            numbers.set(label, String(numbers.size + 1));
+        }
+    });
+
+    cursor.transaction((tx) => {
+        [...references, ...definitions].forEach(({ label, start, end }) => {
+            const number = numbers.get(label);
+            if (number && number !== label && !isRemoved(start)) {
+                tx.replace(start, end, number);
+            }
+        });
+
+        deleteLines(
+            cursor,
+            tx,
+            orphans.flatMap(({ fromLineNumber, toLineNumber }) =>
+                Array.from({ length: toLineNumber - fromLineNumber + 1 }, (_, index) =>
+                    cursor.lineAt(fromLineNumber + index)!,
+                ),
+            ),
+        );
+    });
+};
+
+export const imageCommandHandler: TextBufferCommandHandler = ({ options, cursor }) => {
     const { imageTextPlaceholder, imageUrlPlaceholder } = options;
 
     const imageText = cursor.selection?.text || imageTextPlaceholder;
@@ -30,17 +393,28 @@ export const imageCommandHandler: CommandHandler = ({ options, cursor }) => {
     cursor.insert(`![${imageText}](${Cursor.MARKER}${imageUrl}${Cursor.MARKER})`);
 };
 
-export const orderedListCommandHandler: CommandHandler = ({ cursor }) => {
+export const orderedListCommandHandler: TextBufferCommandHandler = ({ cursor }) => {
     const re = /(\d+\.){1,2}\s+/;
     const lines = cursor.selection?.lines ?? [cursor.position.line];
     const needUndo = lines.every((line) => re.test(line.text));
+    // numbering continues the list above
+    const previous = /^(\d+)\.\s/.exec(cursor.lineAt(lines[0].lineNumber - 1)?.text ?? '');
+    const start = previous ? Number(previous[1]) + 1 : 1;
 
-    cursor.replaceCurrentLines((line, index) => (needUndo ? line.text.replace(re, '') : `${index + 1}. ${line.text}`), {
-        selectReplaced: Boolean(cursor.selection),
-    });
+    cursor.replaceCurrentLines(
+        (line, index) => (needUndo ? line.text.replace(re, '') : `${start + index}. ${line.text}`),
+        { selectReplaced: Boolean(cursor.selection) },
+    );
+};
+
+/**
+ * Make ordered lists touched by the selection sequential
+ */
+export const renumberListCommandHandler: TextBufferCommandHandler = ({ cursor }) => {
+    cursor.renumberLists();
 };
 
-export const unorderedListCommandHandler: CommandHandler = ({ cursor, options }) => {
+export const unorderedListCommandHandler: TextBufferCommandHandler = ({ cursor, options }) => {
     const syntax = options.preferredUnorderedListSyntax;
     const re = new RegExp(`^${escapeRegExp(syntax)}\\s+`);
     const lines = cursor.selection?.lines ?? [cursor.position.line];
@@ -51,15 +425,168 @@ export const unorderedListCommandHandler: CommandHandler = ({ cursor, options })
     });
 };
 
-export const codeBlockCommandHandler: CommandHandler = ({ cursor, options: { codeBlockPlaceholder } }) => {
-    cursor.wrap(['```\n', '\n```'], { placeholder: codeBlockPlaceholder });
+/** List item with a checkbox, groups: indent, list marker, spacing, checkbox state */
+const TASK_ITEM_RE = /^(\s*)([-*+]|(?:\d+\.){1,2})(\s+)\[([ xX])\](?=\s|$)/;
+
+const LIST_ITEM_RE = /^(\s*)([-*+]|(?:\d+\.){1,2})\s+/;
+
+/**
+ * Convert lines to unchecked task items, existing list items keep their markers.
+ * If all lines are task items already, markers and checkboxes are removed
+ */
+export const taskListCommandHandler: TextBufferCommandHandler = ({ cursor, options }) => {
+    const syntax = options.preferredUnorderedListSyntax;
+    const lines = cursor.selection?.lines ?? [cursor.position.line];
+    const needUndo = lines.every((line) => TASK_ITEM_RE.test(line.text));
+
+    cursor.replaceCurrentLines(
+        (line) => {
+            if (needUndo) {
+                return line.text.replace(new RegExp(`${TASK_ITEM_RE.source}\\s?`), '$1');
+            }
+            if (TASK_ITEM_RE.test(line.text)) {
+                return line.text;
+            }
+            if (LIST_ITEM_RE.test(line.text)) {
+                return line.text.replace(LIST_ITEM_RE, '$1$2 [ ] ');
+            }
+            const indent = line.text.match(/^\s*/)![0];
+            return `${indent}${syntax} [ ] ${line.text.slice(indent.length)}`;
+        },
+        { selectReplaced: Boolean(cursor.selection) },
+    );
+};
+
+/**
+ * Check or uncheck every task item touched by the selection, selection is kept as is
+ */
+export const toggleTaskCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const tasks = getTouchedLines(cursor).lines.flatMap((line) => {
+        const match = TASK_ITEM_RE.exec(line.text);
+        return match ? [{ line, match }] : [];
+    });
+
+    if (tasks.length === 0) {
+        return;
+    }
+
+    keyEvent?.preventDefault();
+    cursor.transaction((tx) => {
+        for (const { line, match } of tasks) {
+            const [, indent, marker, spacing, state] = match;
+            // position of the checkbox state inside of the brackets
+            const at = line.startsAt + indent.length + marker.length + spacing.length + 1;
+            tx.replace(at, at + 1, state === ' ' ? 'x' : ' ');
+        }
+    });
 };
 
-export const codeInlineCommandHandler: CommandHandler = ({ cursor, options: { codeInlinePlaceholder } }) => {
-    cursor.wrap('`', { placeholder: codeInlinePlaceholder });
+/**
+ * @returns {object} fence which contains the selection, `null` if the whole fence is selected
+ */
+const findEnclosingFence = (cursor: Cursor) => {
+    const block = cursor.context().blocks.find((block): block is CodeFenceBlock => block.type === 'code-fence');
+    if (!block) {
+        return null;
+    }
+
+    const opening = cursor.lineAt(block.fromLineNumber)!;
+    const closing = cursor.lineAt(block.toLineNumber)!;
+    const start = cursor.position.cursorAt;
+    const end = cursor.selection?.selectionEnd ?? start;
+    if (end > closing.endsAt || (start <= opening.startsAt && end >= closing.endsAt)) {
+        return null;
+    }
+
+    return { block, opening, closing };
 };
 
-export const codeCommandHandler: CommandHandler = (ctx) => {
+/**
+ * Wrap the selection with a code fence, the language is passed as an argument or taken from `codeBlockLanguage` option.
+ * Fence is longer than backtick fences of the content. If the cursor is inside a fence, the fence is removed instead
+ */
+export const codeBlockCommandHandler: TextBufferCommandHandler<[language: string]> = (
+    { cursor, options },
+    language,
+) => {
+    const { codeBlockPlaceholder, codeBlockLanguage } = options;
+    const enclosing = findEnclosingFence(cursor);
+
+    if (enclosing) {
+        const { block, opening, closing } = enclosing;
+        // not closed fence lasts until the end of the document
+        const closingFence = /^\s*(`{3,}|~{3,})\s*$/.exec(closing.text)?.[1];
+        const isClosed =
+            block.toLineNumber > block.fromLineNumber &&
+            closingFence?.[0] === block.fence[0] &&
+            closingFence.length >= block.fence.length;
+        const contentStart = cursor.lineAt(block.fromLineNumber + 1)?.startsAt ?? opening.endsAt;
+        const contentEnd = isClosed ? cursor.lineAt(block.toLineNumber - 1)!.endsAt : closing.endsAt;
+        const content = cursor.value.slice(contentStart, Math.max(contentStart, contentEnd));
+
+        cursor.transaction((tx) => {
+            tx.replace(opening.startsAt, closing.endsAt, `${Cursor.MARKER}${content}${Cursor.MARKER}`);
+        });
+        return;
+    }
+
+    const fences = Array.from(cursor.selection?.text.matchAll(/^\s*(`{3,})/gm) ?? [], (match) => match[1].length);
+    const fence = '`'.repeat(Math.max(2, ...fences) + 1);
+    cursor.wrap([`${fence}${language ?? codeBlockLanguage}\n`, `\n${fence}`], {
+        placeholder: codeBlockPlaceholder,
+        unwrap: false,
+    });
+};
+
+/**
+ * Wrap the selection with a code span, the delimiter is longer than backtick runs of the content
+ * and the content is padded with spaces if it starts or ends with a backtick. Code span around the selection is removed
+ */
+export const codeInlineCommandHandler: TextBufferCommandHandler = ({ cursor, options }) => {
+    const { codeInlinePlaceholder } = options;
+    selectWordIfEmpty(cursor, options);
+
+    const text = cursor.value;
+    const unwrapped = new Set<number>();
+
+    cursor.transaction((tx) => {
+        cursor.ranges.forEach((range) => {
+            // markup inside of a grapheme would break it
+            const { start, end } = snapRangeToGraphemes(text, range.start, range.end);
+            // position after the start is inside of the span even if the whole span is selected
+            const code = cursor
+                .context(start < end ? start + 1 : start)
+                .marks.find((mark) => mark.type === 'code' && mark.start <= start && end <= mark.end);
+
+            if (code) {
+                if (!unwrapped.has(code.start)) {
+                    const content = text.slice(code.contentStart, code.contentEnd);
+                    // single space is stripped from both sides of the content
+                    const isPadded = /^ [\s\S]* $/.test(content) && content.trim() !== '';
+                    tx.replace(
+                        code.start,
+                        code.end,
+                        `${Cursor.MARKER}${isPadded ? content.slice(1, -1) : content}${Cursor.MARKER}`,
+                    );
+                    unwrapped.add(code.start);
+                }
+                return;
+            }
+
+            const content = text.slice(start, end) || codeInlinePlaceholder;
+            const longest = Math.max(0, ...Array.from(content.matchAll(/`+/g), (match) => match[0].length));
+            const delimiter = '`'.repeat(longest + 1);
+            const padding = /^`|`$/.test(content) ? ' ' : '';
+            tx.replace(
+                start,
+                end,
+                `${delimiter}${padding}${Cursor.MARKER}${content}${Cursor.MARKER}${padding}${delimiter}`,
+            );
+        });
+    });
+};
+
+export const codeCommandHandler: TextBufferCommandHandler = (ctx) => {
     const selectedLines = ctx.cursor.selection?.lines ?? [];
     if (selectedLines.length > 1) {
         codeBlockCommandHandler(ctx);
@@ -68,7 +595,7 @@ export const codeCommandHandler: CommandHandler = (ctx) => {
     }
 };
 
-export const blockQuotesCommandHandler: CommandHandler = ({ cursor, options }) => {
+export const blockQuotesCommandHandler: TextBufferCommandHandler = ({ cursor, options }) => {
     cursor.replaceCurrentLines((line, index, lines) =>
         [
             index === 0 ? '> ' : '', // quote markup for the first line
@@ -79,22 +606,372 @@ export const blockQuotesCommandHandler: CommandHandler = ({ cursor, options }) =
     );
 };
 
-export const strikeThroughCommandHandler: CommandHandler = ({ cursor, options: { strikeThroughPlaceholder } }) => {
+export const strikeThroughCommandHandler: TextBufferCommandHandler = ({ cursor, options }) => {
+    const { strikeThroughPlaceholder } = options;
+    selectEnclosingCodeSpan(cursor);
+    selectWordIfEmpty(cursor, options);
     cursor.wrap('~~', { placeholder: strikeThroughPlaceholder });
 };
 
+export const selectNextOccurrenceCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    if (cursor.selectNextOccurrence()) {
+        keyEvent?.preventDefault();
+    }
+};
+
+export const undoCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    // without the library-managed history native undo is used
+    if (cursor.undo()) {
+        keyEvent?.preventDefault();
+    }
+};
+
+export const redoCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    if (cursor.redo()) {
+        keyEvent?.preventDefault();
+    }
+};
+
+export const expandSelectionCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    if (cursor.expandSelection()) {
+        keyEvent?.preventDefault();
+    }
+};
+
+export const shrinkSelectionCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    if (cursor.shrinkSelection()) {
+        keyEvent?.preventDefault();
+    }
+};
+
+/**
+ * Lines touched by the selection, the last line is skipped if the selection ends at its very beginning
+ */
+const getTouchedLines = (cursor: Cursor) => {
+    const selection = cursor.selection;
+    if (!selection) {
+        return { lines: [cursor.position.line], start: cursor.position.cursorAt, end: cursor.position.cursorAt };
+    }
+
+    const { selectionStart: start, selectionEnd: end } = selection;
+    const lines = selection.lines;
+    const last = lines[lines.length - 1];
+    return { lines: lines.length > 1 && end === last.startsAt ? lines.slice(0, -1) : lines, start, end };
+};
+
+/**
+ * Text of the lines with markers at the selection boundaries, so the selection is moved together with the lines
+ */
+const withSelectionMarkers = (cursor: Cursor, lines: Line[], start: number, end: number) => {
+    const from = lines[0].startsAt;
+    const text = cursor.value.slice(from, lines[lines.length - 1].endsAt);
+    const markedEnd = Math.min(end - from, text.length);
+    const markedStart = Math.min(start - from, markedEnd);
+
+    return [
+        text.slice(0, markedStart),
+        Cursor.MARKER,
+        text.slice(markedStart, markedEnd),
+        Cursor.MARKER,
+        text.slice(markedEnd),
+    ].join('');
+};
+
+export const moveLineUpCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const { lines, start, end } = getTouchedLines(cursor);
+    const first = lines[0];
+    const last = lines[lines.length - 1];
+    const previous = cursor.lineAt(first.lineNumber - 1);
+    if (!previous) {
+        return;
+    }
+
+    keyEvent?.preventDefault();
+    cursor.transaction((tx) => {
+        tx.replace(
+            previous.startsAt,
+            last.endsAt,
+            `${withSelectionMarkers(cursor, lines, start, end)}\n${previous.text}`,
+        );
+    });
+};
+
+export const moveLineDownCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const { lines, start, end } = getTouchedLines(cursor);
+    const first = lines[0];
+    const last = lines[lines.length - 1];
+    const next = cursor.lineAt(last.lineNumber + 1);
+    if (!next) {
+        return;
+    }
+
+    keyEvent?.preventDefault();
+    cursor.transaction((tx) => {
+        tx.replace(first.startsAt, next.endsAt, `${next.text}\n${withSelectionMarkers(cursor, lines, start, end)}`);
+    });
+};
+
+/**
+ * Copy the lines below, selection is moved to the copy
+ */
+export const duplicateLineCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const { lines, start, end } = getTouchedLines(cursor);
+    const last = lines[lines.length - 1];
+
+    keyEvent?.preventDefault();
+    cursor.transaction((tx) => {
+        tx.insert(last.endsAt, `\n${withSelectionMarkers(cursor, lines, start, end)}`);
+    });
+};
+
+/**
+ * Join selected lines or the current line with the next one, indentation of the joined lines is removed
+ */
+export const joinLinesCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const { lines } = getTouchedLines(cursor);
+    const next = cursor.lineAt(lines[lines.length - 1].lineNumber + 1);
+    const joined = lines.length > 1 ? lines : next ? [...lines, next] : [];
+    if (joined.length < 2) {
+        return;
+    }
+
+    keyEvent?.preventDefault();
+    cursor.transaction((tx) => {
+        joined.slice(1).forEach((line, index) => {
+            const previous = joined[index];
+            const indent = line.text.match(/^\s*/)![0].length;
+            // empty lines are just removed
+            const hasContentBefore = joined.slice(0, index + 1).some(({ text }) => text.trim());
+            const separator = hasContentBefore && line.text.trim() ? ' ' : '';
+            tx.replace(previous.endsAt, line.startsAt + indent, separator);
+        });
+    });
+};
+
+export const deleteLineCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const { lines } = getTouchedLines(cursor);
+    const first = lines[0];
+    const last = lines[lines.length - 1];
+    const next = cursor.lineAt(last.lineNumber + 1);
+
+    keyEvent?.preventDefault();
+    cursor.transaction((tx) => {
+        // the line break of the previous line is removed for the last line
+        const start = next ? first.startsAt : (cursor.lineAt(first.lineNumber - 1)?.endsAt ?? 0);
+        const end = next ? next.startsAt : last.endsAt;
+        tx.delete(start, end).select(start);
+    });
+};
+
+type HeadingLines = {
+    /** `0` for a regular line */
+    level: number;
+    /** Line with the heading content */
+    line: Line;
+    /** Underline of the setext heading */
+    underline: Line | null;
+    /** Heading markup starts after blockquote markers */
+    markupStart: number;
+    /** Range of the content without heading markup */
+    contentStart: number;
+    contentEnd: number;
+};
+
+/**
+ * Heading which contains the line, setext heading is found by its underline as well
+ */
+const getHeading = (cursor: Cursor, line: Line): HeadingLines => {
+    const find = (target: Line | null) =>
+        target &&
+        cursor.context(target.startsAt).blocks.find((block): block is HeadingBlock => block.type === 'heading');
+
+    const previous = find(cursor.lineAt(line.lineNumber - 1));
+    const heading = previous?.toLineNumber === line.lineNumber ? previous : find(line);
+    const textLine = heading ? cursor.lineAt(heading.fromLineNumber)! : line;
+    const underline = heading?.style === 'setext' ? cursor.lineAt(heading.toLineNumber) : null;
+
+    const quotes = textLine.text.match(/^(\s*>\s?)*/)![0];
+    const text = textLine.text.slice(quotes.length);
+    // ATX markup is removed together with the optional closing sequence
+    const prefix = text.match(heading?.style === 'atx' ? /^ {0,3}#{1,6}(?:[ \t]+|$)/ : /^\s*/)![0];
+    const rest = text.slice(prefix.length);
+    const content = heading?.style === 'atx' ? rest.replace(/(?:^|[ \t]+)#+[ \t]*$/, '') : rest.trimEnd();
+    const markupStart = textLine.startsAt + quotes.length;
+
+    return {
+        level: heading?.level ?? 0,
+        line: textLine,
+        underline,
+        markupStart,
+        contentStart: markupStart + prefix.length,
+        contentEnd: markupStart + prefix.length + content.length,
+    };
+};
+
 export const createHeadlineCommandHandler =
-    (level: number): CommandHandler =>
+    (level: number): TextBufferCommandHandler =>
     ({ cursor, options }) => {
-        const prefix = '#'.repeat(clamp(level, 1, 6)) + ' ';
+        const headingLevel = clamp(level, 1, 6);
+        const prefix = '#'.repeat(headingLevel) + ' ';
         const { headlinePlaceholder } = options;
         const placeholder = headlinePlaceholder instanceof Function ? headlinePlaceholder(level) : headlinePlaceholder;
-        const currentLine = cursor.position.line;
-        const needUndo = currentLine.text.slice(0, level + 1) === prefix;
-        const content = currentLine.text.replace(/^#{0,6}\s+/, '') || placeholder;
+        const heading = getHeading(cursor, cursor.position.line);
+        // setext heading of the same level is converted to ATX one
+        const needUndo = heading.level === headingLevel && !heading.underline;
+        const content = cursor.value.slice(heading.contentStart, heading.contentEnd) || placeholder;
 
-        cursor.replaceLine(
-            currentLine.lineNumber,
-            `${needUndo ? '' : prefix}${Cursor.MARKER}${content}${Cursor.MARKER}`,
-        );
+        cursor.transaction((tx) => {
+            tx.replace(
+                heading.markupStart,
+                (heading.underline ?? heading.line).endsAt,
+                `${needUndo ? '' : prefix}${Cursor.MARKER}${content}${Cursor.MARKER}`,
+            );
+        });
+    };
+
+/**
+ * Change heading level of every touched line, changed setext headings are converted to ATX ones
+ * @param delta - `-1` promotes: paragraph → h6 → … → h1, `1` demotes: h1 → … → h6 → paragraph
+ */
+const createHeadingLevelCommandHandler =
+    (delta: 1 | -1): TextBufferCommandHandler =>
+    ({ cursor }) => {
+        const headings = getTouchedLines(cursor)
+            .lines.filter((line) => line.text.trim())
+            .map((line) => getHeading(cursor, line))
+            // both lines of the setext heading could be touched
+            .filter((heading, index, all) => all.findIndex(({ line }) => line === heading.line) === index);
+
+        cursor.transaction((tx) => {
+            for (const { level, line, underline, markupStart, contentStart, contentEnd } of headings) {
+                // h1 can't be promoted, demoted h6 becomes a paragraph
+                const nextLevel = level === 0 ? (delta < 0 ? 6 : 0) : clamp(level + delta, 1, 7) % 7;
+                if (nextLevel === level) {
+                    continue;
+                }
+
+                tx.replace(markupStart, contentStart, nextLevel > 0 ? '#'.repeat(nextLevel) + ' ' : '');
+                if (contentEnd < (underline ?? line).endsAt) {
+                    tx.delete(contentEnd, (underline ?? line).endsAt);
+                }
+            }
+        });
     };
+
+export const headingIncreaseCommandHandler = createHeadingLevelCommandHandler(-1);
+
+export const headingDecreaseCommandHandler = createHeadingLevelCommandHandler(1);
+
+/**
+ * Insert an empty table below the current line, the cursor is placed into the first header cell
+ */
+export const insertTableCommandHandler: TextBufferCommandHandler<[rows: number, columns: number]> = (
+    { cursor },
+    rows = 2,
+    columns = 2,
+) => {
+    const columnCount = Math.max(1, columns);
+    const empty = () => Array<string>(columnCount).fill('');
+    const lines = formatTable({
+        indent: '',
+        header: empty(),
+        alignments: Array<ColumnAlignment>(columnCount).fill('none'),
+        rows: Array.from({ length: Math.max(0, rows) }, empty),
+    });
+
+    const line = cursor.position.line;
+    const next = cursor.lineAt(line.lineNumber + 1);
+    const isBlank = !line.text.trim();
+    const at = tableCellRange(lines[0], 0).start;
+    // table should be separated from the surrounding paragraphs
+    const before = isBlank ? '' : '\n\n';
+    const after = next?.text.trim() ? '\n' : '';
+
+    cursor.transaction((tx) => {
+        tx.replace(
+            isBlank ? line.startsAt : line.endsAt,
+            line.endsAt,
+            `${before}${lines[0].slice(0, at)}${Cursor.MARKER}${lines[0].slice(at)}\n${lines.slice(1).join('\n')}${after}`,
+        );
+    });
+};
+
+/** Add an empty row below the current one, the first row is added if the cursor is in the header */
+export const tableAddRowCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const updated = updateTable(cursor, (table, { row, column }) => {
+        const index = Math.max(row - 1, 0);
+        table.rows.splice(index, 0, Array<string>(table.header.length).fill(''));
+        return { row: index + 2, column };
+    });
+
+    if (updated) {
+        keyEvent?.preventDefault();
+    }
+};
+
+/** Delete the current row, header and delimiter rows can't be deleted */
+export const tableDeleteRowCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const updated = updateTable(cursor, (table, { row, column }) => {
+        if (row < 2) {
+            return null;
+        }
+        table.rows.splice(row - 2, 1);
+        return { row: table.rows.length > 0 ? Math.min(row, table.rows.length + 1) : 0, column };
+    });
+
+    if (updated) {
+        keyEvent?.preventDefault();
+    }
+};
+
+/** Add an empty column after the current one */
+export const tableAddColumnCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const updated = updateTable(cursor, (table, { row, column }) => {
+        const index = column + 1;
+        table.header.splice(index, 0, '');
+        table.alignments.splice(index, 0, 'none');
+        table.rows.forEach((cells) => cells.splice(index, 0, ''));
+        return { row, column: index };
+    });
+
+    if (updated) {
+        keyEvent?.preventDefault();
+    }
+};
+
+/** Delete the current column, the last column can't be deleted */
+export const tableDeleteColumnCommandHandler: TextBufferCommandHandler = ({ cursor, keyEvent }) => {
+    const updated = updateTable(cursor, (table, { row, column }) => {
+        if (table.header.length < 2) {
+            return null;
+        }
+        table.header.splice(column, 1);
+        table.alignments.splice(column, 1);
+        table.rows.forEach((cells) => cells.splice(column, 1));
+        return { row, column: Math.min(column, table.header.length - 1) };
+    });
+
+    if (updated) {
+        keyEvent?.preventDefault();
+    }
+};
+
+const ALIGNMENTS: ColumnAlignment[] = ['none', 'left', 'center', 'right'];
+
+/**
+ * Set the alignment of the current column, alignments are cycled if it's not specified
+ */
+export const tableAlignColumnCommandHandler: TextBufferCommandHandler<[alignment: ColumnAlignment]> = (
+    { cursor, keyEvent },
+    alignment,
+) => {
+    const updated = updateTable(cursor, (table, cell) => {
+        const current = ALIGNMENTS.indexOf(table.alignments[cell.column]);
+        table.alignments[cell.column] = alignment ?? ALIGNMENTS[(current + 1) % ALIGNMENTS.length];
+        return cell;
+    });
+
+    if (updated) {
+        keyEvent?.preventDefault();
+    }
+};
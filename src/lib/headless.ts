@@ -1,9 +1,12 @@
-export { bootstrapTextareaMarkdown } from './bootstrap';
+export { bootstrapTextareaMarkdown, bootstrapTextBuffer } from './bootstrap';
 export { BUILT_IN_COMMANDS } from './types';
 export type {
     TextareaMarkdownRef,
     CommandHandler,
     CommandHandlerContext,
+    TextBufferCommandHandler,
+    TextBufferCommandHandlerContext,
+    TextBufferCommand,
     CommandTrigger,
     CommandType,
     TextareaMarkdownProps,
@@ -14,3 +17,13 @@ export type {
 } from './types';
 
 export { Cursor } from './Cursor';
+export type { SelectRange, Transaction, CaretRect, LineEnding } from './Cursor';
+export { TextareaBuffer, MemoryBuffer } from './TextBuffer';
+export type { TextBuffer } from './TextBuffer';
+export type { SearchMatch, SearchPattern, SearchReplacer } from './search';
+export { parseSnippet } from './snippet';
+export type { ParsedSnippet, SnippetTabStop } from './snippet';
+export type { MarkdownContext, BlockContext, InlineMark } from './context';
+export { graphemeBoundaries, snapToGrapheme } from './graphemes';
+export { formatTable, parseTable } from './table';
+export type { Table, ColumnAlignment } from './table';
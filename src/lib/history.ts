@@ -0,0 +1,280 @@
+import { TextareaBuffer, TextBuffer } from './TextBuffer';
+import { diffRange } from './utils';
+
+type HistoryEntry = {
+    /** Position of the change */
+    start: number;
+    removed: string;
+    inserted: string;
+
+    /** Selection before the change */
+    selection: { start: number; end: number };
+
+    /** Scroll position before the change, `null` for non-DOM buffers */
+    scrollTop: number | null;
+
+    /** `input` – changes made outside of the Cursor, e.g. typing */
+    kind: 'input' | 'edit';
+    time: number;
+};
+
+export type HistoryOptions = {
+    /** Consecutive typing within this interval is reverted at once `default: 1000` */
+    groupTimeout?: number;
+
+    /** Max size of the undo stack `default: 200` */
+    limit?: number;
+};
+
+/**
+ * Library-managed undo/redo stack. Records edits made by the Cursor and any other changes of the buffer value,
+ * so undo is not lost even if native undo is not supported
+ */
+export class History {
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+
+    /** Value of the buffer after the last recorded change */
+    private value: string;
+    /** Depth of the changes applied by the history itself, input listeners can make nested edits */
+    private applyingDepth = 0;
+    private restoring = false;
+    private groupTimeout: number;
+    private limit: number;
+
+    public constructor(
+        private buffer: TextBuffer,
+        options: HistoryOptions = {},
+    ) {
+        this.value = buffer.value;
+        this.groupTimeout = options.groupTimeout ?? 1000;
+        this.limit = options.limit ?? 200;
+    }
+
+    /** `true` while the history applies a change, e.g. an undo step */
+    public get isApplying() {
+        return this.applyingDepth > 0;
+    }
+
+    /** `true` while undo or redo restores a change, input listeners shouldn't amend the restored value */
+    public get isRestoring() {
+        return this.restoring;
+    }
+
+    public get canUndo() {
+        this.sync();
+        return this.undoStack.length > 0;
+    }
+
+    public get canRedo() {
+        this.sync();
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Record changes made outside of the Cursor, e.g. typing
+     */
+    public sync() {
+        const value = this.buffer.value;
+        if (this.isApplying || value === this.value) {
+            return;
+        }
+
+        const { start, prevEnd, nextEnd } = diffRange(this.value, value);
+        this.push({
+            start,
+            removed: this.value.slice(start, prevEnd),
+            inserted: value.slice(start, nextEnd),
+            selection: { start, end: prevEnd },
+            scrollTop: this.scrollTop,
+            kind: 'input',
+            time: Date.now(),
+        });
+        this.value = value;
+    }
+
+    /**
+     * Apply replacement of the `[start, end)` range as a separate undo step.
+     * Edits made by input listeners while the replacement is applied are folded into the same step
+     */
+    public record(start: number, end: number, text: string, apply: () => void) {
+        if (this.isApplying) {
+            apply();
+            return;
+        }
+
+        this.sync();
+
+        const previous = this.value;
+        const selection = { start: this.buffer.selectionStart, end: this.buffer.selectionEnd };
+        const scrollTop = this.scrollTop;
+
+        this.withoutRecording(apply);
+
+        const expected = previous.slice(0, start) + text + previous.slice(end);
+        const changed =
+            this.value === expected
+                ? { start, prevEnd: end, nextEnd: start + text.length }
+                : diffRange(previous, this.value);
+
+        this.push({
+            start: changed.start,
+            removed: previous.slice(changed.start, changed.prevEnd),
+            inserted: this.value.slice(changed.start, changed.nextEnd),
+            selection,
+            scrollTop,
+            kind: 'edit',
+            time: Date.now(),
+        });
+    }
+
+    /**
+     * Revert the last change, selection and scroll position are restored
+     * @returns {boolean} `false` if there is nothing to undo
+     */
+    public undo(): boolean {
+        this.sync();
+        const entry = this.undoStack.pop();
+        if (!entry) {
+            return false;
+        }
+
+        this.withoutRecording(() => {
+            const scrollTop = this.scrollTop;
+            this.buffer.replaceRange(entry.start, entry.start + entry.inserted.length, entry.removed);
+            this.buffer.setSelectionRange(entry.selection.start, entry.selection.end);
+            this.scrollTop = entry.scrollTop;
+            // keep the scroll position to restore it on redo
+            entry.scrollTop = scrollTop;
+        }, true);
+        this.redoStack.push(entry);
+        return true;
+    }
+
+    /**
+     * Apply the last reverted change again
+     * @returns {boolean} `false` if there is nothing to redo
+     */
+    public redo(): boolean {
+        this.sync();
+        const entry = this.redoStack.pop();
+        if (!entry) {
+            return false;
+        }
+
+        this.withoutRecording(() => {
+            const scrollTop = this.scrollTop;
+            this.buffer.replaceRange(entry.start, entry.start + entry.removed.length, entry.inserted);
+            this.buffer.setSelectionRange(entry.start + entry.inserted.length, entry.start + entry.inserted.length);
+            this.scrollTop = entry.scrollTop;
+            entry.scrollTop = scrollTop;
+        }, true);
+        this.undoStack.push(entry);
+        return true;
+    }
+
+    public clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.value = this.buffer.value;
+    }
+
+    private push(entry: HistoryEntry) {
+        this.redoStack = [];
+
+        const last = this.undoStack[this.undoStack.length - 1];
+        const merged = last && this.merge(last, entry);
+
+        if (merged) {
+            this.undoStack[this.undoStack.length - 1] = merged;
+        } else {
+            this.undoStack.push(entry);
+        }
+
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+    }
+
+    /** @returns {HistoryEntry} single entry for consecutive typing or `null` if entries should not be grouped */
+    private merge(last: HistoryEntry, entry: HistoryEntry): HistoryEntry | null {
+        if (
+            last.kind !== 'input' ||
+            entry.kind !== 'input' ||
+            entry.time - last.time > this.groupTimeout ||
+            // line breaks split typing into separate steps
+            entry.inserted.includes('\n') ||
+            last.inserted.includes('\n')
+        ) {
+            return null;
+        }
+
+        const lastEnd = last.start + last.inserted.length;
+
+        // typing forward
+        if (entry.removed === '' && entry.start === lastEnd) {
+            return { ...last, inserted: last.inserted + entry.inserted, time: entry.time };
+        }
+
+        // removing typed characters
+        if (entry.inserted === '' && entry.start >= last.start && entry.start + entry.removed.length === lastEnd) {
+            return { ...last, inserted: last.inserted.slice(0, entry.start - last.start), time: entry.time };
+        }
+
+        // removing characters backward
+        if (last.inserted === '' && entry.inserted === '' && entry.start + entry.removed.length === last.start) {
+            return {
+                ...last,
+                start: entry.start,
+                removed: entry.removed + last.removed,
+                selection: { start: entry.start, end: last.selection.end },
+                time: entry.time,
+            };
+        }
+
+        return null;
+    }
+
+    private withoutRecording(fn: () => void, restoring = false) {
+        const wasRestoring = this.restoring;
+        this.applyingDepth++;
+        this.restoring = wasRestoring || restoring;
+        try {
+            fn();
+        } finally {
+            this.applyingDepth--;
+            this.restoring = wasRestoring;
+            this.value = this.buffer.value;
+        }
+    }
+
+    private get scrollTop(): number | null {
+        return this.buffer instanceof TextareaBuffer ? this.buffer.element.scrollTop : null;
+    }
+
+    private set scrollTop(value: number | null) {
+        if (value !== null && this.buffer instanceof TextareaBuffer) {
+            this.buffer.element.scrollTop = value;
+        }
+    }
+}
+
+const histories = new WeakMap<TextBuffer, History>();
+
+/**
+ * Enable library-managed history for the buffer
+ */
+export const attachHistory = (buffer: TextBuffer, options?: HistoryOptions) => {
+    const history = new History(buffer, options);
+    histories.set(buffer, history);
+    return history;
+};
+
+export const detachHistory = (buffer: TextBuffer) => {
+    histories.delete(buffer);
+};
+
+/** @returns {History} history of the buffer or `null` if history is not enabled */
+export const getHistory = (buffer: TextBuffer): History | null => {
+    return histories.get(buffer) ?? null;
+};
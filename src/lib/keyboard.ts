@@ -10,7 +10,7 @@ const KEY_ALIASES: Record<string, string> = {
     cmd: 'meta',
     ctrl: 'control',
     option: 'alt',
-    mod: navigator?.platform?.includes('Mac') ? 'meta' : 'control',
+    mod: typeof navigator !== 'undefined' && navigator.platform?.includes('Mac') ? 'meta' : 'control',
 };
 
 const parseShortcut = (shortcut: string): { key: string; modifiers: Set<string> } => {
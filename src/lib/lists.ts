@@ -0,0 +1,245 @@
+import { getMarkdownContext } from './context';
+import { Line, LineIndex } from './LineIndex';
+import { findLast } from './utils';
+
+/** Ordered list item, groups: indent, number like `1.` or `1.2.` */
+const ORDERED_ITEM_RE = /^(\s*)((?:\d+\.)+)(?=\s|$)/;
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+
+type OrderedList = {
+    indent: number;
+    /** Count of number parts, `1.2.` has depth 2 */
+    depth: number;
+    next: number;
+    /** Number parts of the last item */
+    path: number[];
+};
+
+export type ListEdit = { start: number; end: number; text: string };
+
+/** Lines which are not indented and are not ordered list items end all the lists */
+const isListBoundary = (text: string) => /^\S/.test(text) && !ORDERED_ITEM_RE.test(text);
+
+/**
+ * Make ordered lists in the range of lines sequential, the first item of each list keeps its number.
+ * Lists are searched around the range, so the whole list is renumbered even if only one item is touched.
+ * Nested items like `1.1.` get the number of the parent item as a prefix
+ * @returns {ListEdit[]} replacements of the item numbers
+ */
+export const getListRenumberEdits = (lines: LineIndex, fromLineNumber: number, toLineNumber: number) => {
+    let from = Math.max(fromLineNumber, 1);
+    let to = Math.min(toLineNumber, lines.lineCount);
+    while (from > 1 && !isListBoundary(lines.line(from)!.text)) {
+        from--;
+    }
+    while (to < lines.lineCount && !isListBoundary(lines.line(to)!.text)) {
+        to++;
+    }
+
+    // boundary could be the closing fence, its code is skipped
+    const code = getMarkdownContext(lines, lines.line(from)!.startsAt).blocks.find(
+        (block) => block.type === 'code-fence' || block.type === 'front-matter',
+    );
+    if (code && code.fromLineNumber < from) {
+        from = code.toLineNumber + 1;
+    }
+
+    const edits: ListEdit[] = [];
+    let lists: OrderedList[] = [];
+    let fence: string | null = null;
+
+    for (const line of lines.linesBetween(from, to)) {
+        const fenceMatch = FENCE_RE.exec(line.text);
+        if (fence) {
+            if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                fence = null;
+            }
+            continue;
+        }
+        fence = fenceMatch?.[1] ?? null;
+
+        if (!line.text.trim()) {
+            continue;
+        }
+
+        const indent = line.text.match(/^\s*/)![0].length;
+        const item = fence ? null : ORDERED_ITEM_RE.exec(line.text);
+
+        if (!item) {
+            // only more indented lists can contain the line
+            lists = lists.filter((list) => list.indent < indent);
+            continue;
+        }
+
+        const parts = item[2].slice(0, -1).split('.').map(Number);
+        const depth = parts.length;
+        lists = lists.filter((list) => list.indent < indent || (list.indent === indent && list.depth <= depth));
+
+        let list = lists[lists.length - 1];
+        if (!list || list.indent !== indent || list.depth !== depth) {
+            list = { indent, depth, next: parts[depth - 1], path: [] };
+            lists.push(list);
+        }
+
+        const parent = findLast(lists, (candidate) => candidate.depth === depth - 1);
+        list.path = [...(parent ? parent.path : parts.slice(0, -1)), list.next];
+        list.next++;
+
+        const text = list.path.map((part) => `${part}.`).join('');
+        if (text !== item[2]) {
+            const start = line.startsAt + item[1].length;
+            edits.push({ start, end: start + item[2].length, text });
+        }
+    }
+
+    return edits;
+};
+
+/** List item, groups: indent, marker, spacing after the marker */
+const LIST_ITEM_RE = /^(\s*)([-*+]|(?:\d+\.)+)(\s+|$)/;
+
+const BULLETS = ['-', '*', '+'];
+
+type ListItem = {
+    line: Line;
+    indent: number;
+    marker: string;
+    ordered: boolean;
+    /** Column of the item content, nested items should be indented to it */
+    contentIndent: number;
+};
+
+const parseListItem = (line: Line): ListItem | null => {
+    const match = LIST_ITEM_RE.exec(line.text);
+    if (!match) {
+        return null;
+    }
+
+    const [, indent, marker, spacing] = match;
+    // 5+ spaces after the marker start an indented code, so the content starts after a single space
+    const contentIndent =
+        indent.length + marker.length + (spacing.length > 0 && spacing.length <= 4 ? spacing.length : 1);
+    return { line, indent: indent.length, marker, ordered: /\d/.test(marker), contentIndent };
+};
+
+const indentOf = (text: string) => text.match(/^\s*/)![0].length;
+
+/** @returns {ListItem} previous item of the same list */
+const findSibling = (lines: LineIndex, item: ListItem): ListItem | null => {
+    for (let lineNumber = item.line.lineNumber - 1; lineNumber >= 1; lineNumber--) {
+        const line = lines.line(lineNumber)!;
+        const indent = indentOf(line.text);
+        if (!line.text.trim() || indent > item.indent) {
+            continue;
+        }
+        return indent === item.indent ? parseListItem(line) : null;
+    }
+    return null;
+};
+
+/** @returns {ListItem} item which contains the item */
+const findParent = (lines: LineIndex, item: ListItem): ListItem | null => {
+    for (let lineNumber = item.line.lineNumber - 1; lineNumber >= 1; lineNumber--) {
+        const line = lines.line(lineNumber)!;
+        const indent = indentOf(line.text);
+        if (!line.text.trim() || indent >= item.indent) {
+            continue;
+        }
+
+        const parent = parseListItem(line);
+        // not indented paragraph ends the list
+        if (parent || indent === 0) {
+            return parent;
+        }
+    }
+    return null;
+};
+
+/**
+ * Indent list items to the content column of the previous item, so they are nested under it.
+ * Outdent moves items to the level of their parent. Nested items and other lines are shifted together with
+ * the item above, so the subtree of the last item is moved even if it's not selected
+ * @param cycleMarkers - bullets are cycled per depth, nested ordered lists start from `1.`
+ * @returns {ListEdit[]} edits or `null` if the first line is not a list item which could be moved
+ */
+export const getListIndentEdits = (
+    lines: LineIndex,
+    fromLineNumber: number,
+    toLineNumber: number,
+    { outdent = false, cycleMarkers = false } = {},
+): ListEdit[] | null => {
+    const edits: ListEdit[] = [];
+    let delta: number | null = null;
+    // nested items and content of the moved item keep their place relative to it
+    let subtree: { indent: number; delta: number } | null = null;
+
+    const shift = (line: Line, by: number) => {
+        if (!by || !line.text.trim()) {
+            return;
+        }
+        // outdent removes the leading spaces
+        const count = Math.max(by, -indentOf(line.text));
+        edits.push({
+            start: line.startsAt,
+            end: line.startsAt + Math.max(-count, 0),
+            text: ' '.repeat(Math.max(count, 0)),
+        });
+    };
+
+    for (let lineNumber = fromLineNumber; lineNumber <= lines.lineCount; lineNumber++) {
+        const line = lines.line(lineNumber)!;
+        if (subtree && (!line.text.trim() || indentOf(line.text) > subtree.indent)) {
+            shift(line, subtree.delta);
+            continue;
+        }
+        // subtree of the last item is moved even if it's not selected
+        if (lineNumber > toLineNumber) {
+            break;
+        }
+        subtree = null;
+
+        const item = parseListItem(line);
+        if (!item) {
+            // content of the item is shifted together with it
+            shift(line, delta ?? 0);
+            continue;
+        }
+
+        const target = outdent ? findParent(lines, item) : findSibling(lines, item);
+        if (!target && (!outdent || item.indent === 0)) {
+            if (delta === null) {
+                return null;
+            }
+            delta = 0;
+            subtree = { indent: item.indent, delta };
+            continue;
+        }
+
+        const indent = outdent ? (target?.indent ?? 0) : target!.contentIndent;
+        let marker = item.marker;
+
+        if (cycleMarkers && target && target.ordered === item.ordered) {
+            if (!item.ordered) {
+                marker = outdent ? target.marker : BULLETS[(BULLETS.indexOf(target.marker) + 1) % BULLETS.length];
+            } else if (outdent) {
+                marker = `${parseInt(target.marker) + 1}.`;
+            } else {
+                // nested list could be started already
+                const previous = lines.line(line.lineNumber - 1);
+                const sibling = previous && parseListItem(previous);
+                marker = sibling?.ordered && sibling.indent === indent ? `${parseInt(sibling.marker) + 1}.` : '1.';
+            }
+        }
+
+        delta = indent - item.indent;
+        subtree = { indent: item.indent, delta };
+        edits.push({
+            start: line.startsAt,
+            end: line.startsAt + item.indent + item.marker.length,
+            text: ' '.repeat(indent) + marker,
+        });
+    }
+
+    return delta === null ? null : edits;
+};
@@ -0,0 +1,188 @@
+import { Line } from './LineIndex';
+
+/** Link reference definition, groups: label, destination, optional title */
+const DEFINITION_RE = /^ {0,3}\[((?:[^\]\\]|\\.)+)\]:[ \t]*(<[^>]*>|\S+)(.*)$/;
+
+/** Full `[text][label]`, collapsed `[label][]` or shortcut `[label]` reference, groups: text, label */
+const REFERENCE_RE = /\[((?:[^\]\\]|\\.)*)\](?:\[((?:[^\]\\]|\\.)*)\])?/g;
+
+const DUPLICATE_NOTE_RE = /^<!-- duplicate reference: .* -->$/;
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+
+const CODE_SPAN_RE = /(`+)[^`](?:.*?[^`])?\1(?!`)/g;
+
+/** Footnote definition, groups: prefix, label */
+const FOOTNOTE_DEFINITION_RE = /^( {0,3}\[\^)([^\]\s]+)\]:/;
+
+const FOOTNOTE_RE = /\[\^([^\]\s]+)\]/g;
+
+/** Continuation of the footnote definition is indented */
+const FOOTNOTE_CONTINUATION_RE = /^( {4}|\t)/;
+
+export type ReferenceDefinition = {
+    label: string;
+    url: string;
+    /** Optional title with the leading whitespace, e.g. ` "Title"` */
+    title: string;
+    line: Line;
+};
+
+/** Labels are case-insensitive and whitespace is collapsed */
+export const normalizeReferenceLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const parseDefinition = (line: Line): ReferenceDefinition | null => {
+    const match = DEFINITION_RE.exec(line.text);
+    // footnotes look like definitions
+    if (!match || match[1].startsWith('^')) {
+        return null;
+    }
+
+    return { label: match[1], url: match[2], title: match[3].trimEnd(), line };
+};
+
+/** @returns {Line[]} lines outside of code fences */
+const textLines = (lines: Line[]): Line[] => {
+    let fence: string | null = null;
+
+    return lines.filter((line) => {
+        const match = FENCE_RE.exec(line.text);
+        if (fence) {
+            if (match && match[1][0] === fence[0] && match[1].length >= fence.length) {
+                fence = null;
+            }
+            return false;
+        }
+
+        fence = match?.[1] ?? null;
+        return !fence;
+    });
+};
+
+/** Code spans are masked, so the offsets are kept */
+const maskCodeSpans = (text: string) => text.replace(CODE_SPAN_RE, (span) => ' '.repeat(span.length));
+
+/**
+ * Lines of the definition block, which are not a content of the document
+ */
+export const isReferenceBlockLine = (line: Line) =>
+    !line.text.trim() || parseDefinition(line) !== null || DUPLICATE_NOTE_RE.test(line.text);
+
+/** @returns {Line[]} definitions and duplicate notes outside of code fences */
+export const getReferenceBlockLines = (lines: Line[]): Line[] =>
+    textLines(lines).filter((line) => line.text.trim() && isReferenceBlockLine(line));
+
+/** @returns {ReferenceDefinition[]} definitions in the document order, code fences are skipped */
+export const getReferenceDefinitions = (lines: Line[]): ReferenceDefinition[] =>
+    textLines(lines)
+        .map(parseDefinition)
+        .filter((definition): definition is ReferenceDefinition => definition !== null);
+
+/** @returns {Set<string>} normalized labels of all references in the document */
+export const getUsedReferenceLabels = (lines: Line[]): Set<string> => {
+    const labels = new Set<string>();
+
+    for (const line of textLines(lines)) {
+        if (parseDefinition(line)) {
+            continue;
+        }
+
+        const text = maskCodeSpans(line.text);
+        for (const match of text.matchAll(REFERENCE_RE)) {
+            const [reference, content, label] = match;
+            // shortcut reference followed by `(` is an inline link
+            if (label === undefined && text[match.index! + reference.length] === '(') {
+                continue;
+            }
+            labels.add(normalizeReferenceLabel(label || content));
+        }
+    }
+
+    return labels;
+};
+
+/** @returns {string} label after the greatest numeric one */
+export const nextReferenceLabel = (labeled: { label: string }[]) =>
+    String(Math.max(0, ...labeled.map(({ label }) => Number(label)).filter(Number.isInteger)) + 1);
+
+/**
+ * Format the definition block sorted by labels. Repeated definitions are removed,
+ * the ones which redefine a label are marked with a comment, since only the first definition is used
+ * @returns {string[]} lines of the block
+ */
+export const formatReferenceDefinitions = (definitions: ReferenceDefinition[]): string[] => {
+    const seen = new Map<string, ReferenceDefinition[]>();
+    const block: string[] = [];
+
+    const sorted = [...definitions].sort((a, b) =>
+        normalizeReferenceLabel(a.label).localeCompare(normalizeReferenceLabel(b.label), undefined, {
+            numeric: true,
+        }),
+    );
+
+    for (const definition of sorted) {
+        const key = normalizeReferenceLabel(definition.label);
+        const previous = seen.get(key) ?? [];
+        if (previous.some(({ url, title }) => url === definition.url && title === definition.title)) {
+            continue;
+        }
+
+        if (previous.length > 0) {
+            block.push(`<!-- duplicate reference: [${definition.label}] -->`);
+        }
+        block.push(`[${definition.label}]: ${definition.url}${definition.title}`);
+        seen.set(key, [...previous, definition]);
+    }
+
+    return block;
+};
+
+export type Footnote = {
+    label: string;
+    /** Range of the label without `[^` and `]` */
+    start: number;
+    end: number;
+};
+
+export type FootnoteDefinition = Footnote & {
+    /** Numbers of the first and the last lines of the definition, including indented continuation */
+    fromLineNumber: number;
+    toLineNumber: number;
+};
+
+/** @returns {object} footnote references and definitions in the document order, code is skipped */
+export const getFootnotes = (lines: Line[]): { references: Footnote[]; definitions: FootnoteDefinition[] } => {
+    const references: Footnote[] = [];
+    const definitions: FootnoteDefinition[] = [];
+    let current: FootnoteDefinition | null = null;
+
+    for (const line of textLines(lines)) {
+        const definition = FOOTNOTE_DEFINITION_RE.exec(line.text);
+        let offset = 0;
+
+        if (definition) {
+            const start = line.startsAt + definition[1].length;
+            const label = definition[2];
+            current = {
+                label,
+                start,
+                end: start + label.length,
+                fromLineNumber: line.lineNumber,
+                toLineNumber: line.lineNumber,
+            };
+            definitions.push(current);
+            offset = definition[0].length;
+        } else if (current && FOOTNOTE_CONTINUATION_RE.test(line.text)) {
+            current.toLineNumber = line.lineNumber;
+        } else if (line.text.trim()) {
+            current = null;
+        }
+
+        for (const match of maskCodeSpans(line.text.slice(offset)).matchAll(FOOTNOTE_RE)) {
+            const start = line.startsAt + offset + match.index! + 2;
+            references.push({ label: match[1], start, end: start + match[1].length });
+        }
+    }
+
+    return { references, definitions };
+};
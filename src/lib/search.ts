@@ -0,0 +1,94 @@
+import { escapeRegExp } from './utils';
+
+export type SearchPattern = string | RegExp;
+
+export type SearchMatch = {
+    start: number;
+    end: number;
+
+    /** Matched text */
+    text: string;
+
+    /** Capture groups, `undefined` for groups that didn't participate in the match */
+    groups: (string | undefined)[];
+
+    namedGroups?: Record<string, string | undefined>;
+};
+
+/**
+ * Same signature as for `String.prototype.replace` replacer function
+ */
+export type SearchReplacer = string | ((match: string, ...args: any[]) => string);
+
+const toGlobalRegExp = (pattern: SearchPattern) => {
+    if (typeof pattern === 'string') {
+        return new RegExp(escapeRegExp(pattern), 'g');
+    }
+    return new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+};
+
+/**
+ * Find all non-empty matches of the pattern, string pattern is treated literally
+ */
+export const findMatches = (text: string, pattern: SearchPattern): SearchMatch[] => {
+    const re = toGlobalRegExp(pattern);
+    const matches: SearchMatch[] = [];
+
+    if (re.source === '(?:)') {
+        return matches;
+    }
+
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(text)) !== null) {
+        if (match[0] === '') {
+            // avoid infinite loop on empty matches
+            re.lastIndex++;
+            continue;
+        }
+        matches.push({
+            start: match.index,
+            end: match.index + match[0].length,
+            text: match[0],
+            groups: match.slice(1),
+            namedGroups: match.groups,
+        });
+    }
+
+    return matches;
+};
+
+/**
+ * @returns {string} replacement for the match, `$n`, `$<name>`, `$&` and `$$` patterns are supported for string replacer
+ */
+export const expandReplacement = (match: SearchMatch, replacer: SearchReplacer, text: string): string => {
+    if (typeof replacer === 'function') {
+        const args: unknown[] = [...match.groups, match.start, text];
+        if (match.namedGroups) {
+            args.push(match.namedGroups);
+        }
+        return replacer(match.text, ...args);
+    }
+
+    return replacer.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (pattern: string, token: string, name?: string) => {
+        if (token === '$') {
+            return '$';
+        }
+        if (token === '&') {
+            return match.text;
+        }
+        if (token === '`') {
+            return text.slice(0, match.start);
+        }
+        if (token === "'") {
+            return text.slice(match.end);
+        }
+        if (name !== undefined) {
+            return match.namedGroups ? (match.namedGroups[name] ?? '') : pattern;
+        }
+        const groupIndex = parseInt(token, 10);
+        if (groupIndex < 1 || groupIndex > match.groups.length) {
+            return pattern;
+        }
+        return match.groups[groupIndex - 1] ?? '';
+    });
+};
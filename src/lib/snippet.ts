@@ -0,0 +1,87 @@
+export type SnippetTabStop = {
+    /** `0` is the final cursor position */
+    index: number;
+
+    /** Ranges of all occurrences of the tab stop, relative to the beginning of the snippet */
+    ranges: { start: number; end: number }[];
+};
+
+export type ParsedSnippet = {
+    text: string;
+
+    /** Tab stops in order of navigation, the final `$0` one goes last */
+    tabStops: SnippetTabStop[];
+};
+
+/**
+ * Parse snippet syntax: `$1`, `${1}`, `${1:default}` (placeholders can be nested) and `$0` as a final position.
+ * Use `\$`, `\}` and `\\` to escape special characters
+ * @example
+ * parseSnippet('[${1:text}](${2:url})$0')
+ */
+export const parseSnippet = (snippet: string): ParsedSnippet => {
+    const stops = new Map<number, SnippetTabStop>();
+    let text = '';
+    let position = 0;
+
+    const addRange = (index: number, start: number, end: number) => {
+        if (!stops.has(index)) {
+            stops.set(index, { index, ranges: [] });
+        }
+        stops.get(index)!.ranges.push({ start, end });
+    };
+
+    // parses until the closing brace of the placeholder (if nested) or the end of the snippet
+    const parse = (nested: boolean) => {
+        while (position < snippet.length) {
+            const char = snippet[position];
+
+            if (char === '\\' && position + 1 < snippet.length && '$}\\'.includes(snippet[position + 1])) {
+                text += snippet[position + 1];
+                position += 2;
+                continue;
+            }
+
+            if (nested && char === '}') {
+                position++;
+                return;
+            }
+
+            if (char === '$') {
+                const simple = /^\$(\d+)/.exec(snippet.slice(position));
+                if (simple) {
+                    addRange(Number(simple[1]), text.length, text.length);
+                    position += simple[0].length;
+                    continue;
+                }
+
+                const placeholder = /^\$\{(\d+)(:|\})/.exec(snippet.slice(position));
+                if (placeholder) {
+                    const index = Number(placeholder[1]);
+                    const start = text.length;
+                    position += placeholder[0].length;
+                    if (placeholder[2] === ':') {
+                        parse(true);
+                    }
+                    addRange(index, start, text.length);
+                    continue;
+                }
+            }
+
+            text += char;
+            position++;
+        }
+    };
+
+    parse(false);
+
+    const tabStops = Array.from(stops.values()).sort((a, b) => {
+        // `$0` is always the last one
+        if (a.index === 0 || b.index === 0) {
+            return b.index - a.index;
+        }
+        return a.index - b.index;
+    });
+
+    return { text, tabStops };
+};
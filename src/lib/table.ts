@@ -0,0 +1,179 @@
+import { graphemeBoundaries } from './graphemes';
+import { Cursor } from './Cursor';
+import { TableBlock } from './context';
+import { clamp } from './utils';
+
+export type ColumnAlignment = 'none' | 'left' | 'center' | 'right';
+
+/** Pipe table, all rows have the same count of cells */
+export type Table = {
+    /** Indentation of the table rows */
+    indent: string;
+    header: string[];
+    alignments: ColumnAlignment[];
+    /** Rows after the delimiter row */
+    rows: string[][];
+};
+
+/** Pipes escaped with `\` are a part of the cell */
+const PIPE_RE = /(?<!\\)\|/g;
+
+/** Delimiter cell is at least `---`, so the alignment always fits */
+const MIN_COLUMN_WIDTH = 3;
+
+/** @returns {string[]} trimmed cells of the row, leading and trailing pipes are optional */
+export const splitTableRow = (text: string): string[] => {
+    const trimmed = text.trim();
+    const cells = trimmed.split(PIPE_RE).map((cell) => cell.trim());
+
+    if (trimmed.startsWith('|')) {
+        cells.shift();
+    }
+    if (cells.length > 0 && /(?<!\\)\|$/.test(trimmed)) {
+        cells.pop();
+    }
+
+    return cells;
+};
+
+const parseAlignment = (cell: string): ColumnAlignment => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : left ? 'left' : right ? 'right' : 'none';
+};
+
+/**
+ * Parse rows of the table, the second one is expected to be a delimiter row.
+ * Missing cells are added, so no content is lost if rows have different count of cells
+ */
+export const parseTable = (lines: string[]): Table => {
+    const [header, delimiter, ...rows] = lines.map(splitTableRow);
+    const columnCount = Math.max(header.length, ...rows.map((row) => row.length));
+    const fill = (cells: string[], value: string) => [
+        ...cells,
+        ...Array<string>(columnCount - cells.length).fill(value),
+    ];
+
+    return {
+        indent: lines[0].match(/^\s*/)![0],
+        header: fill(header, ''),
+        alignments: fill(delimiter ?? [], '').map(parseAlignment),
+        rows: rows.map((row) => fill(row, '')),
+    };
+};
+
+/** Visual width of the text, emoji and combining characters take a single column */
+const textWidth = (text: string) => graphemeBoundaries(text).length - 1;
+
+/**
+ * Format the table, so all pipes are aligned. Cells are padded according to the column alignment
+ * @returns {string[]} lines of the table
+ */
+export const formatTable = (table: Table): string[] => {
+    const { indent, header, alignments, rows } = table;
+    const widths = header.map((_, column) =>
+        Math.max(MIN_COLUMN_WIDTH, ...[header, ...rows].map((row) => textWidth(row[column] ?? ''))),
+    );
+
+    const pad = (text: string, column: number) => {
+        const space = widths[column] - textWidth(text);
+        switch (alignments[column]) {
+            case 'right':
+                return ' '.repeat(space) + text;
+            case 'center':
+                return ' '.repeat(Math.floor(space / 2)) + text + ' '.repeat(Math.ceil(space / 2));
+            default:
+                return text + ' '.repeat(space);
+        }
+    };
+
+    const delimiter = widths.map((width, column) => {
+        switch (alignments[column]) {
+            case 'left':
+                return ':' + '-'.repeat(width - 1);
+            case 'right':
+                return '-'.repeat(width - 1) + ':';
+            case 'center':
+                return ':' + '-'.repeat(width - 2) + ':';
+            default:
+                return '-'.repeat(width);
+        }
+    });
+
+    const formatRow = (cells: string[]) => `${indent}| ${cells.join(' | ')} |`;
+
+    return [
+        formatRow(header.map(pad)),
+        formatRow(delimiter),
+        ...rows.map((row) => formatRow(header.map((_, column) => pad(row[column] ?? '', column)))),
+    ];
+};
+
+/**
+ * @returns {object} range of the cell content in the formatted row, empty cell has collapsed range after the space
+ * @see formatTable
+ */
+export const tableCellRange = (row: string, column: number): { start: number; end: number } => {
+    const pipes = Array.from(row.matchAll(PIPE_RE), (match) => match.index!);
+    const index = Math.min(column, pipes.length - 2);
+    const start = pipes[index] + 1;
+    const content = row.slice(start, pipes[index + 1]);
+
+    if (!content.trim()) {
+        return { start: start + 1, end: start + 1 };
+    }
+
+    const contentStart = start + content.search(/\S/);
+    return { start: contentStart, end: contentStart + content.trim().length };
+};
+
+export type TableCell = {
+    /** Rows are counted like in the `TableBlock`: header is `0`, delimiter row is `1` */
+    row: number;
+    column: number;
+};
+
+/**
+ * Apply the change to the table under the cursor and re-format it, so all pipes stay aligned
+ * @param update - mutates the table and returns the cell where the cursor should be placed, `null` to skip the change
+ * @returns {boolean} `true` if the table has been updated
+ */
+export const updateTable = (
+    cursor: Cursor,
+    update: (table: Table, cell: TableCell) => TableCell | null,
+    { selectContent = false } = {},
+): boolean => {
+    const block = cursor.context().blocks.find((block): block is TableBlock => block.type === 'table');
+    if (!block) {
+        return false;
+    }
+
+    const lines = Array.from({ length: block.toLineNumber - block.fromLineNumber + 1 }, (_, index) =>
+        cursor.lineAt(block.fromLineNumber + index)!,
+    );
+    // container prefixes aren't a part of the table, new rows get the prefix of the delimiter row
+    const [headerPrefix, rowPrefix] = block.prefixes;
+    const table = parseTable(lines.map((line, index) => line.text.slice(block.prefixes[index].length)));
+    const cell = update(table, { row: block.row, column: clamp(block.column, 0, table.header.length - 1) });
+    if (!cell) {
+        return false;
+    }
+
+    const formatted = formatTable(table).map((line, index) => (index === 0 ? headerPrefix : rowPrefix) + line);
+    const row = clamp(cell.row, 0, formatted.length - 1);
+    const offset = formatted.slice(0, row).reduce((acc, line) => acc + line.length + 1, 0);
+    const range = tableCellRange(formatted[row], cell.column);
+    const start = offset + range.start;
+    const end = offset + (selectContent ? range.end : range.start);
+    const text = formatted.join('\n');
+
+    cursor.transaction((tx) => {
+        tx.replace(
+            lines[0].startsAt,
+            lines[lines.length - 1].endsAt,
+            [text.slice(0, start), Cursor.MARKER, text.slice(start, end), Cursor.MARKER, text.slice(end)].join(''),
+        );
+    });
+
+    return true;
+};
@@ -16,14 +16,39 @@ export const BUILT_IN_COMMANDS = [
     'h4',
     'h5',
     'h6',
+    'heading-increase',
+    'heading-decrease',
     'unordered-list',
     'ordered-list',
+    'renumber-list',
     'code-block',
     'code-inline',
     'code',
     'link',
+    'link-reference',
+    'cleanup-references',
+    'footnote',
+    'renumber-footnotes',
     'image',
     'block-quotes',
+    'select-next-occurrence',
+    'undo',
+    'redo',
+    'expand-selection',
+    'shrink-selection',
+    'move-line-up',
+    'move-line-down',
+    'duplicate-line',
+    'join-lines',
+    'delete-line',
+    'task-list',
+    'toggle-task',
+    'insert-table',
+    'table-add-row',
+    'table-add-column',
+    'table-delete-row',
+    'table-delete-column',
+    'table-align-column',
 ] as const;
 
 export type CommandType = LiteralUnion<typeof BUILT_IN_COMMANDS[number], string>;
@@ -35,11 +60,22 @@ export type CommandHandlerContext = {
     options: TextareaMarkdownOptions;
 };
 
+/** Context of the commands, which don't depend on the textarea, `textarea` is `undefined` for non-textarea buffers */
+export type TextBufferCommandHandlerContext = Omit<CommandHandlerContext, 'textarea'> & {
+    textarea?: HTMLTextAreaElement;
+};
+
 export type CommandHandler<TArgs extends unknown[] = any[]> = (
     context: CommandHandlerContext,
     ...args: Partial<TArgs>
 ) => void;
 
+/** Handler, which runs against any text buffer, e.g. commands of `bootstrapTextBuffer` and all built-in commands */
+export type TextBufferCommandHandler<TArgs extends unknown[] = any[]> = (
+    context: TextBufferCommandHandlerContext,
+    ...args: Partial<TArgs>
+) => void;
+
 export type CommandConfig<TType extends CommandType = CommandType> = {
     /** Handler function for custom commands */
     handler: CommandHandler;
@@ -74,9 +110,21 @@ export type TextareaMarkdownOptions = {
     /** Preferred italic wrap syntax `default: '*'` */
     preferredItalicSyntax: '*' | '_';
 
+    /** Language of the code blocks inserted by `code-block` command, could be overridden by the command argument `default: ''` */
+    codeBlockLanguage: string;
+
     /** Will handle `tab`/`shift+tab` keystrokes, on which will insert/remove indentation instead of the default behavior `default:true` */
     enableIndentExtension: boolean;
 
+    /** Will cycle bullets `-`, `*`, `+` per depth and restart numbering of nested ordered lists, when list items are indented `default:false` */
+    cycleListMarkers: boolean;
+
+    /** Will handle `tab`/`shift+tab` keystrokes while snippet is active, on which will move between snippet tab stops `default:true` */
+    enableSnippetExtension: boolean;
+
+    /** Will handle `tab`/`shift+tab` and `enter` keystrokes inside of a table, on which will move between cells and add rows `default:true` */
+    enableTableExtension: boolean;
+
     /** Will handle `command/ctrl+backspace` keystrokes, on which will remove only a current line instead of the default behavior `default:true` */
     enableProperLineRemoveBehaviorExtension: boolean;
 
@@ -94,6 +142,18 @@ export type TextareaMarkdownOptions = {
      * */
     enableOrderedListAutoCorrectExtension: boolean;
 
+    /** Will keep ordered lists sequential after every change: new items, deleted lines, indentation and paste `default:false` */
+    enableListRenumberExtension: boolean;
+
+    /**
+     * Will record all changes and handle `undo`/`redo` commands instead of the native undo `default:false`
+     * @note native undo is lost if `document.execCommand` is not supported, so toolbar actions couldn't be reverted
+     * */
+    enableHistory: boolean;
+
+    /** Bold, italic, strike-through and inline code commands will wrap the word under the cursor if nothing is selected `default:false` */
+    expandWrapToWord: boolean;
+
     /** Array of custom prefixes, that need to be wrapped. (Will not work with `enablePrefixWrappingExtension:false`) */
     customPrefixWrapping: (PrefixWrappingConfig | string)[];
 
@@ -141,12 +201,19 @@ export const defaultTextareaMarkdownOptions: TextareaMarkdownOptions = {
     preferredUnorderedListSyntax: '*',
     preferredBoldSyntax: '**',
     preferredItalicSyntax: '*',
+    codeBlockLanguage: '',
 
     enableIndentExtension: true,
+    cycleListMarkers: false,
+    enableSnippetExtension: true,
+    enableTableExtension: true,
     enableLinkPasteExtension: true,
     enablePrefixWrappingExtension: true,
     enableProperLineRemoveBehaviorExtension: true,
     enableOrderedListAutoCorrectExtension: false,
+    enableListRenumberExtension: false,
+    enableHistory: false,
+    expandWrapToWord: false,
     customPrefixWrapping: [],
 
     boldPlaceholder: 'bold',
@@ -168,6 +235,9 @@ export type CommandTrigger = <TArgs extends unknown[] = unknown[]>(command: Comm
 
 export type Command = PartialBy<CommandConfig, 'handler'>;
 
+/** Command of `bootstrapTextBuffer`, its handler doesn't get the textarea */
+export type TextBufferCommand = Omit<Command, 'handler'> & { handler?: TextBufferCommandHandler };
+
 export type Extension = (textarea: HTMLTextAreaElement, options: TextareaMarkdownOptions) => void | (() => void);
 
 export type TextareaMarkdownConfig = {
@@ -64,23 +64,11 @@ export function fireInput(
 
     // Fallback: manual value manipulation
     if (!isSuccess) {
-        // Try to preserve undo/redo for IE/Edge
-        try {
-            document.execCommand('ms-beginUndoUnit');
-        } catch {
-            // Ignore
-        }
-
+        // native undo is lost here, use `enableHistory` option to keep it
         // Manually replace the selected range
         const newValue = input.value.slice(0, start) + value + input.value.slice(end);
         input.value = newValue;
 
-        try {
-            document.execCommand('ms-endUndoUnit');
-        } catch {
-            // Ignore
-        }
-
         // Manually dispatch input event
         const event = document.createEvent('UIEvent');
         event.initEvent('input', true, false);
@@ -94,6 +82,42 @@ export function fireInput(
     input.selectionEnd = newCursorPos;
 }
 
+/**
+ * Find the changed region between two versions of a text
+ * @returns {object} `[start, prevEnd)` range of the previous text was replaced with `[start, nextEnd)` range of the next text
+ */
+export const diffRange = (prev: string, next: string) => {
+    const CHUNK_SIZE = 1024;
+    const maxLength = Math.min(prev.length, next.length);
+
+    // compare by chunks first, it's much faster on large texts
+    let start = 0;
+    while (
+        start + CHUNK_SIZE <= maxLength &&
+        prev.slice(start, start + CHUNK_SIZE) === next.slice(start, start + CHUNK_SIZE)
+    ) {
+        start += CHUNK_SIZE;
+    }
+    while (start < maxLength && prev[start] === next[start]) {
+        start++;
+    }
+
+    let suffix = 0;
+    const maxSuffix = maxLength - start;
+    while (
+        suffix + CHUNK_SIZE <= maxSuffix &&
+        prev.slice(prev.length - suffix - CHUNK_SIZE, prev.length - suffix) ===
+            next.slice(next.length - suffix - CHUNK_SIZE, next.length - suffix)
+    ) {
+        suffix += CHUNK_SIZE;
+    }
+    while (suffix < maxSuffix && prev[prev.length - suffix - 1] === next[next.length - suffix - 1]) {
+        suffix++;
+    }
+
+    return { start, prevEnd: prev.length - suffix, nextEnd: next.length - suffix };
+};
+
 /**
  * 1. -> 2.
  * 1.1. -> 1.2.
@@ -0,0 +1,186 @@
+import { measureRange } from '../lib/caret';
+import { Cursor } from '../lib/Cursor';
+import { MemoryBuffer } from '../lib/TextBuffer';
+
+const LINE_HEIGHT = 10;
+const CHAR_WIDTH = 5;
+
+const createTextArea = (content: string = '', width = 100) => {
+    const el = document.createElement('textarea');
+    el.value = content;
+    el.style.width = `${width}px`;
+    document.body.appendChild(el);
+    return el;
+};
+
+/**
+ * jsdom has no layout, so emulate monospace font, where long lines are wrapped by the width of the mirror
+ */
+const mockLayout = () => {
+    const toRect = (top: number, left: number, width: number) =>
+        ({ top, left, width, height: LINE_HEIGHT, right: left + width, bottom: top + LINE_HEIGHT }) as DOMRect;
+
+    // visual row and column of every character of the mirror text
+    const layout = (span: Element) => {
+        const mirror = span.parentElement!;
+        const columns = Math.floor(parseInt(mirror.style.width) / CHAR_WIDTH);
+        const before = span.previousSibling?.textContent ?? '';
+        const text = before + span.textContent;
+        const positions: { row: number; column: number }[] = [];
+        let row = 0;
+        let column = 0;
+
+        for (const char of text) {
+            if (column === columns) {
+                row++;
+                column = 0;
+            }
+            positions.push({ row, column });
+            if (char === '\n') {
+                row++;
+                column = 0;
+            } else if (char !== '\u200b') {
+                column++;
+            }
+        }
+
+        return positions.slice(before.length);
+    };
+
+    const getBoundingClientRect = jest.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (
+        this: Element,
+    ) {
+        if (this.tagName !== 'SPAN') {
+            return toRect(0, 0, 0);
+        }
+        const [first] = layout(this);
+        return toRect(first.row * LINE_HEIGHT, first.column * CHAR_WIDTH, 0);
+    });
+
+    const getClientRects = jest.spyOn(Element.prototype, 'getClientRects').mockImplementation(function (this: Element) {
+        const rows = new Map<number, { column: number; length: number }>();
+        layout(this).forEach(({ row, column }) => {
+            const current = rows.get(row);
+            rows.set(row, current ? { ...current, length: current.length + 1 } : { column, length: 1 });
+        });
+        return Array.from(rows.entries()).map(([row, { column, length }]) =>
+            toRect(row * LINE_HEIGHT, column * CHAR_WIDTH, length * CHAR_WIDTH),
+        ) as unknown as DOMRectList;
+    });
+
+    return () => {
+        getBoundingClientRect.mockRestore();
+        getClientRects.mockRestore();
+    };
+};
+
+describe('measureRange', () => {
+    let restoreLayout: () => void;
+
+    beforeEach(() => {
+        restoreLayout = mockLayout();
+    });
+
+    afterEach(() => {
+        restoreLayout();
+        document.body.innerHTML = '';
+    });
+
+    it('should remove the mirror element', () => {
+        const textarea = createTextArea('hello');
+        const childCount = document.body.childElementCount;
+
+        measureRange(textarea, 2);
+
+        expect(document.body.childElementCount).toBe(childCount);
+    });
+
+    it('should copy styles of the textarea', () => {
+        const textarea = createTextArea('hello');
+        textarea.style.fontSize = '21px';
+        textarea.style.paddingLeft = '7px';
+        const appendChild = jest.spyOn(document.body, 'appendChild');
+
+        measureRange(textarea, 2);
+
+        const mirror = appendChild.mock.calls[0][0] as HTMLDivElement;
+        expect(mirror.style.fontSize).toBe('21px');
+        expect(mirror.style.paddingLeft).toBe('7px');
+        expect(mirror.style.whiteSpace).toBe('pre-wrap');
+        appendChild.mockRestore();
+    });
+
+    it('should measure the caret', () => {
+        const textarea = createTextArea('hello\nworld');
+
+        expect(measureRange(textarea, 8)).toEqual([{ top: 10, left: 10, width: 0, height: 10 }]);
+    });
+
+    it('should take scroll into account', () => {
+        const textarea = createTextArea('hello\nworld');
+        textarea.scrollTop = 4;
+
+        expect(measureRange(textarea, 8)[0].top).toBe(6);
+    });
+
+    it('should return rect for every visual line of the range', () => {
+        const textarea = createTextArea('hello\nworld');
+
+        expect(measureRange(textarea, 3, 8)).toEqual([
+            { top: 0, left: 15, width: 15, height: 10 },
+            { top: 10, left: 0, width: 10, height: 10 },
+        ]);
+    });
+});
+
+describe('Cursor caret rects', () => {
+    let restoreLayout: () => void;
+
+    beforeEach(() => {
+        restoreLayout = mockLayout();
+    });
+
+    afterEach(() => {
+        restoreLayout();
+        document.body.innerHTML = '';
+    });
+
+    it('should measure the caret of the current selection', () => {
+        // 20 characters per line
+        const textarea = createTextArea('a'.repeat(30));
+        textarea.setSelectionRange(2, 25);
+
+        expect(new Cursor(textarea).getCaretRect()).toEqual({ top: 10, left: 25, width: 0, height: 10 });
+
+        textarea.setSelectionRange(2, 25, 'backward');
+        expect(new Cursor(textarea).getCaretRect()).toEqual({ top: 0, left: 10, width: 0, height: 10 });
+    });
+
+    it('should measure wrapped range', () => {
+        const textarea = createTextArea('a'.repeat(30));
+
+        expect(new Cursor(textarea).getRangeRects(25, 15)).toEqual([
+            { top: 0, left: 75, width: 25, height: 10 },
+            { top: 10, left: 0, width: 25, height: 10 },
+        ]);
+    });
+
+    it('should return nothing without DOM', () => {
+        const cursor = new Cursor(new MemoryBuffer('hello'));
+
+        expect(cursor.getCaretRect()).toBeNull();
+        expect(cursor.getRangeRects(0, 2)).toEqual([]);
+    });
+
+    it('should scroll to the inserted content on wrapped lines', () => {
+        // every line is wrapped into 3 visual lines
+        const textarea = createTextArea(Array.from({ length: 10 }, () => 'a'.repeat(50)).join('\n'));
+        Object.defineProperty(textarea, 'clientHeight', { value: 50 });
+        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+
+        new Cursor(textarea).insertAndScrollIntoView('!');
+
+        // caret is on the 30th visual line
+        expect(textarea.scrollTop).toBe(300 - 50);
+    });
+});
@@ -0,0 +1,237 @@
+import { bootstrapTextareaMarkdown } from '../lib/bootstrap';
+import { Cursor } from '../lib/Cursor';
+import { boldCommandHandler } from '../lib/handlers';
+import { MemoryBuffer } from '../lib/TextBuffer';
+import { defaultTextareaMarkdownOptions } from '../lib/types';
+
+/** `^` in the text defines the position */
+const contextOf = (text: string) => {
+    const position = text.indexOf('^');
+    return new Cursor(new MemoryBuffer(text.slice(0, position) + text.slice(position + 1), position)).context();
+};
+
+describe('Cursor.context blocks', () => {
+    it('should return nothing for a plain paragraph', () => {
+        expect(contextOf('hello ^world')).toEqual({ blocks: [], marks: [] });
+    });
+
+    it('should detect fenced code with language', () => {
+        const text = ['text', '```ts', 'const a = 1;^', '```', 'after'].join('\n');
+
+        expect(contextOf(text).blocks).toEqual([
+            { type: 'code-fence', fence: '```', language: 'ts', fromLineNumber: 2, toLineNumber: 4 },
+        ]);
+    });
+
+    it('should not detect closed fence', () => {
+        const text = ['~~~~', 'code', '~~~', '~~~~', 'after^'].join('\n');
+
+        expect(contextOf(text).blocks).toEqual([]);
+        expect(contextOf(['~~~~', 'code', '~~~', 'still code^'].join('\n')).blocks[0].type).toBe('code-fence');
+    });
+
+    it('should not parse markup inside fences', () => {
+        const { blocks, marks } = contextOf(['```', '- **item^**', '```'].join('\n'));
+
+        expect(blocks.map(({ type }) => type)).toEqual(['code-fence']);
+        expect(marks).toEqual([]);
+    });
+
+    it('should detect front matter', () => {
+        expect(contextOf(['---', 'title: ^hello', '---', '# heading'].join('\n')).blocks).toEqual([
+            { type: 'front-matter', fromLineNumber: 1, toLineNumber: 3 },
+        ]);
+        expect(contextOf(['---', 'title: hello', '---', '# heading^'].join('\n')).blocks).toEqual([
+            { type: 'heading', level: 1, style: 'atx', fromLineNumber: 4, toLineNumber: 4 },
+        ]);
+    });
+
+    it('should detect nested list items', () => {
+        const text = ['- one', '    1. two', '       continuation^'].join('\n');
+
+        expect(contextOf(text).blocks).toEqual([
+            { type: 'list-item', marker: '-', ordered: false, depth: 1, indent: 0, fromLineNumber: 1, toLineNumber: 3 },
+            { type: 'list-item', marker: '1.', ordered: true, depth: 2, indent: 4, fromLineNumber: 2, toLineNumber: 3 },
+        ]);
+    });
+
+    it('should detect sibling list item', () => {
+        const text = ['- one', '    - two', '- three^'].join('\n');
+
+        expect(contextOf(text).blocks).toEqual([
+            { type: 'list-item', marker: '-', ordered: false, depth: 1, indent: 0, fromLineNumber: 3, toLineNumber: 3 },
+        ]);
+    });
+
+    it('should end list on not indented paragraph', () => {
+        expect(contextOf(['- one', '', 'paragraph^'].join('\n')).blocks).toEqual([]);
+        expect(contextOf(['- one', 'lazy^'].join('\n')).blocks).toHaveLength(1);
+    });
+
+    it('should detect blockquote depth and blocks inside of it', () => {
+        const text = ['> quote', '> > ```js', '> > code^', '', '> another'].join('\n');
+
+        expect(contextOf(text).blocks).toEqual([
+            { type: 'blockquote', depth: 1, fromLineNumber: 1, toLineNumber: 3 },
+            { type: 'blockquote', depth: 2, fromLineNumber: 2, toLineNumber: 3 },
+            { type: 'code-fence', fence: '```', language: 'js', fromLineNumber: 2, toLineNumber: 5 },
+        ]);
+    });
+
+    it('should detect headings', () => {
+        expect(contextOf('### title^').blocks).toEqual([
+            { type: 'heading', level: 3, style: 'atx', fromLineNumber: 1, toLineNumber: 1 },
+        ]);
+        expect(contextOf('title^\n---').blocks).toEqual([
+            { type: 'heading', level: 2, style: 'setext', fromLineNumber: 1, toLineNumber: 2 },
+        ]);
+        expect(contextOf('title^\n===').blocks).toEqual([
+            { type: 'heading', level: 1, style: 'setext', fromLineNumber: 1, toLineNumber: 2 },
+        ]);
+        expect(contextOf('#hashtag^').blocks).toEqual([]);
+    });
+
+    it('should detect table cell', () => {
+        const text = ['text', '', '| a | b |', '| - | - |', '| 1 | 2^ |', '', 'text'].join('\n');
+
+        expect(contextOf(text).blocks).toEqual([
+            { type: 'table', row: 2, column: 1, prefixes: ['', '', ''], fromLineNumber: 3, toLineNumber: 5 },
+        ]);
+    });
+
+    it('should ignore escaped pipes and tables without delimiter row', () => {
+        expect(contextOf(['a | b', '--- | ---', 'x \\| y | z^'].join('\n')).blocks).toEqual([
+            { type: 'table', row: 2, column: 1, prefixes: ['', '', ''], fromLineNumber: 1, toLineNumber: 3 },
+        ]);
+        expect(contextOf(['a | b', 'x | y^'].join('\n')).blocks).toEqual([]);
+    });
+
+    it('should anchor table by the delimiter row', () => {
+        expect(contextOf(['see a | b', '| x^ | y |', '|---|---|'].join('\n')).blocks).toEqual([
+            { type: 'table', row: 0, column: 0, prefixes: ['', ''], fromLineNumber: 2, toLineNumber: 3 },
+        ]);
+        expect(contextOf(['see a | b^', '| x | y |', '|---|---|'].join('\n')).blocks).toEqual([]);
+        expect(contextOf(['| x | y |', '|---|', '| 1^ | 2 |'].join('\n')).blocks).toEqual([]);
+    });
+
+    it('should detect table in containers', () => {
+        const quoted = contextOf(['> | a | b |', '> |---|---|', '> | 1 | 2^ |'].join('\n'));
+        expect(quoted.blocks[1]).toEqual({
+            type: 'table',
+            row: 2,
+            column: 1,
+            prefixes: ['> ', '> ', '> '],
+            fromLineNumber: 1,
+            toLineNumber: 3,
+        });
+
+        const listed = contextOf(['- | a^ | b |', '  |---|---|', '- | x |'].join('\n'));
+        expect(listed.blocks[1]).toEqual({
+            type: 'table',
+            row: 0,
+            column: 0,
+            prefixes: ['- ', '  '],
+            fromLineNumber: 1,
+            toLineNumber: 2,
+        });
+    });
+});
+
+describe('Cursor.context marks', () => {
+    it('should detect inline code', () => {
+        const { marks } = contextOf('some ``co^de`` here');
+
+        expect(marks).toEqual([{ type: 'code', start: 5, end: 13, contentStart: 7, contentEnd: 11, delimiter: '``' }]);
+    });
+
+    it('should not detect marks inside inline code', () => {
+        expect(contextOf('`**bo^ld**`').marks.map(({ type }) => type)).toEqual(['code']);
+    });
+
+    it('should detect nested marks from outer to inner', () => {
+        const { marks } = contextOf('**bold _it^alic_ ~~no~~**');
+
+        expect(marks.map(({ type }) => type)).toEqual(['strong', 'emphasis']);
+        expect(marks[1]).toEqual({
+            type: 'emphasis',
+            start: 7,
+            end: 15,
+            contentStart: 8,
+            contentEnd: 14,
+            delimiter: '_',
+        });
+    });
+
+    it('should detect emphasis around strong delimiters', () => {
+        expect(contextOf('_**mi^xed**_').marks.map(({ type, start, end }) => [type, start, end])).toEqual([
+            ['emphasis', 0, 11],
+            ['strong', 1, 10],
+        ]);
+    });
+
+    it('should split triple delimiters into strong and emphasis', () => {
+        const { marks } = contextOf('***bo^th***');
+
+        expect(marks).toEqual([
+            { type: 'strong', start: 0, end: 10, contentStart: 2, contentEnd: 8, delimiter: '**' },
+            { type: 'emphasis', start: 2, end: 8, contentStart: 3, contentEnd: 7, delimiter: '*' },
+        ]);
+    });
+
+    it('should detect strike-through and link', () => {
+        expect(contextOf('~~a [li^nk](url) b~~').marks).toEqual([
+            { type: 'strike-through', start: 0, end: 19, contentStart: 2, contentEnd: 17, delimiter: '~~' },
+            { type: 'link', start: 4, end: 15, contentStart: 5, contentEnd: 9, delimiter: '[' },
+        ]);
+    });
+
+    it('should follow flanking rules of delimiters', () => {
+        expect(contextOf('call my_var^_name here').marks).toEqual([]);
+        expect(contextOf('[docs](https://a.com/some_pa^ge_name)').marks.map(({ type }) => type)).toEqual(['link']);
+        expect(contextOf('snake_case _wo^rd_').marks).toEqual([
+            { type: 'emphasis', start: 11, end: 17, contentStart: 12, contentEnd: 16, delimiter: '_' },
+        ]);
+        expect(contextOf('a * b^ * c').marks).toEqual([]);
+    });
+
+    it('should not include spans the position is outside of', () => {
+        expect(contextOf('`code`^ **bold**').marks).toEqual([]);
+    });
+});
+
+describe('context-aware commands', () => {
+    it('should wrap the whole code span with bold', () => {
+        const textarea = document.createElement('textarea');
+        textarea.value = 'use `npm i` here';
+        textarea.setSelectionRange(6, 7);
+        const cursor = new Cursor(textarea);
+
+        boldCommandHandler({ textarea, cursor, options: defaultTextareaMarkdownOptions });
+        expect(textarea.value).toBe('use **`npm i`** here');
+
+        textarea.setSelectionRange(8, 8);
+        boldCommandHandler({ textarea, cursor, options: defaultTextareaMarkdownOptions });
+        expect(textarea.value).toBe('use `npm i` here');
+    });
+
+    it('should not continue list inside code fence', () => {
+        const textarea = document.createElement('textarea');
+        document.body.appendChild(textarea);
+        const { dispose } = bootstrapTextareaMarkdown(textarea);
+        const pressEnter = () =>
+            textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', code: 'Enter', cancelable: true }));
+
+        textarea.value = '```\n- item';
+        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+        pressEnter();
+        expect(textarea.value).toBe('```\n- item');
+
+        textarea.value = '- item';
+        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+        pressEnter();
+        expect(textarea.value).toBe('- item\n- ');
+
+        dispose();
+        document.body.removeChild(textarea);
+    });
+});
@@ -1,4 +1,4 @@
-import { Cursor, Line } from '../lib/Cursor';
+import { Cursor, Line, SelectRange } from '../lib/Cursor';
 
 const createTextArea = (content: string) => {
     const el = document.createElement('textarea');
@@ -335,3 +335,445 @@ describe('Cursor.MARKER', () => {
         expect(typeof Cursor.MARKER).toBe('string');
     });
 });
+
+describe('Cursor.ranges', () => {
+    it('should contain native selection only by default', () => {
+        const textarea = createTextArea('hello world');
+        textarea.setSelectionRange(0, 5);
+        const cursor = new Cursor(textarea);
+
+        expect(cursor.ranges).toEqual([{ start: 0, end: 5 }]);
+    });
+
+    it('should keep sorted and merged ranges and set native selection to the primary one', () => {
+        const textarea = createTextArea('one two three four');
+        const cursor = new Cursor(textarea);
+
+        cursor.setRanges([
+            { start: 8, end: 13 },
+            { start: 0, end: 3 },
+            { start: 1, end: 2 },
+        ]);
+
+        expect(cursor.ranges).toEqual([
+            { start: 0, end: 3 },
+            { start: 8, end: 13 },
+        ]);
+        expect(textarea.selectionStart).toBe(0);
+        expect(textarea.selectionEnd).toBe(3);
+    });
+
+    it('should be shared between cursor instances', () => {
+        const textarea = createTextArea('one two');
+        new Cursor(textarea).setRanges([
+            { start: 0, end: 3 },
+            { start: 4, end: 7 },
+        ]);
+
+        expect(new Cursor(textarea).ranges).toHaveLength(2);
+    });
+
+    it('should drop additional ranges when native selection is changed', () => {
+        const textarea = createTextArea('one two');
+        const cursor = new Cursor(textarea);
+        cursor.setRanges([
+            { start: 0, end: 3 },
+            { start: 4, end: 7 },
+        ]);
+
+        textarea.setSelectionRange(1, 1);
+
+        expect(cursor.ranges).toEqual([{ start: 1, end: 1 }]);
+    });
+
+    it('should drop additional ranges when value is changed', () => {
+        const textarea = createTextArea('one two');
+        const cursor = new Cursor(textarea);
+        cursor.setRanges([
+            { start: 0, end: 3 },
+            { start: 4, end: 7 },
+        ]);
+
+        textarea.value = 'one twO';
+        textarea.setSelectionRange(4, 7);
+
+        expect(cursor.ranges).toEqual([{ start: 4, end: 7 }]);
+    });
+
+    it('should drop additional ranges on clearRanges', () => {
+        const textarea = createTextArea('one two');
+        const cursor = new Cursor(textarea);
+        cursor.setRanges([
+            { start: 0, end: 3 },
+            { start: 4, end: 7 },
+        ]);
+
+        cursor.clearRanges();
+
+        expect(cursor.ranges).toEqual([{ start: 4, end: 7 }]);
+    });
+});
+
+describe('Cursor.selectNextOccurrence', () => {
+    it('should select word under the cursor first', () => {
+        const textarea = createTextArea('foo bar foo');
+        textarea.setSelectionRange(5, 5);
+        const cursor = new Cursor(textarea);
+
+        expect(cursor.selectNextOccurrence()).toBe(true);
+        expect(cursor.ranges).toEqual([{ start: 4, end: 7 }]);
+    });
+
+    it('should add next occurrences of the selected text', () => {
+        const textarea = createTextArea('foo bar foo baz foo');
+        textarea.setSelectionRange(0, 3);
+        const cursor = new Cursor(textarea);
+
+        cursor.selectNextOccurrence();
+        cursor.selectNextOccurrence();
+
+        expect(cursor.ranges).toEqual([
+            { start: 0, end: 3 },
+            { start: 8, end: 11 },
+            { start: 16, end: 19 },
+        ]);
+        expect(textarea.selectionStart).toBe(16);
+    });
+
+    it('should continue search from the beginning', () => {
+        const textarea = createTextArea('foo bar foo');
+        textarea.setSelectionRange(8, 11);
+        const cursor = new Cursor(textarea);
+
+        cursor.selectNextOccurrence();
+
+        expect(cursor.ranges).toEqual([
+            { start: 0, end: 3 },
+            { start: 8, end: 11 },
+        ]);
+    });
+
+    it('should move the native selection to the added touching range', () => {
+        const textarea = createTextArea('abab');
+        textarea.setSelectionRange(0, 2);
+        const cursor = new Cursor(textarea);
+
+        cursor.selectNextOccurrence();
+
+        expect(cursor.ranges).toEqual([
+            { start: 0, end: 2 },
+            { start: 2, end: 4 },
+        ]);
+        expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([2, 4]);
+    });
+
+    it('should find the primary range given backwards', () => {
+        const textarea = createTextArea('abab');
+        const cursor = new Cursor(textarea);
+
+        cursor.setRanges([
+            { start: 2, end: 0 },
+            { start: 4, end: 2 },
+        ]);
+
+        expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([2, 4]);
+    });
+
+    it('should return false if there is nothing to add', () => {
+        const textarea = createTextArea('foo bar');
+        textarea.setSelectionRange(0, 3);
+        const cursor = new Cursor(textarea);
+
+        expect(cursor.selectNextOccurrence()).toBe(false);
+        expect(cursor.ranges).toHaveLength(1);
+    });
+});
+
+describe('Cursor multiple ranges editing', () => {
+    const createMultiCursor = (content: string, ranges: SelectRange[]) => {
+        const textarea = createTextArea(content);
+        const cursor = new Cursor(textarea);
+        cursor.setRanges(ranges);
+        return { textarea, cursor };
+    };
+
+    it('should insert into every range as a single input', () => {
+        const { textarea, cursor } = createMultiCursor('a b c', [
+            { start: 0, end: 1 },
+            { start: 4, end: 5 },
+        ]);
+        const onInput = jest.fn();
+        textarea.addEventListener('input', onInput);
+
+        cursor.insert('x');
+
+        expect(textarea.value).toBe('x b x');
+        expect(onInput).toHaveBeenCalledTimes(1);
+        expect(cursor.ranges).toEqual([
+            { start: 1, end: 1 },
+            { start: 5, end: 5 },
+        ]);
+    });
+
+    it('should wrap every range and keep them selected', () => {
+        const { textarea, cursor } = createMultiCursor('one two three', [
+            { start: 0, end: 3 },
+            { start: 8, end: 13 },
+        ]);
+
+        cursor.wrap('**');
+
+        expect(textarea.value).toBe('**one** two **three**');
+        expect(cursor.ranges).toEqual([
+            { start: 2, end: 5 },
+            { start: 14, end: 19 },
+        ]);
+    });
+
+    it('should unwrap every wrapped range', () => {
+        const { textarea, cursor } = createMultiCursor('**one** two **three**', [
+            { start: 2, end: 5 },
+            { start: 14, end: 19 },
+        ]);
+
+        cursor.wrap('**');
+
+        expect(textarea.value).toBe('one two three');
+    });
+
+    it('should replace lines of every range', () => {
+        const { textarea, cursor } = createMultiCursor('one\ntwo\nthree\nfour', [
+            { start: 0, end: 0 },
+            { start: 1, end: 1 },
+            { start: 9, end: 12 },
+        ]);
+
+        cursor.replaceCurrentLines((line) => `- ${line.text}`);
+
+        expect(textarea.value).toBe('- one\ntwo\n- three\nfour');
+    });
+});
+
+describe('Cursor with input element', () => {
+    it('should wrap selection inside input', () => {
+        const input = document.createElement('input');
+        input.value = 'hello world';
+        input.setSelectionRange(0, 5);
+
+        new Cursor(input).wrap('**');
+
+        expect(input.value).toBe('**hello** world');
+    });
+});
+
+describe('Cursor.findAll', () => {
+    it('should find all literal matches', () => {
+        const cursor = new Cursor(createTextArea('a.b a.b axb'));
+
+        expect(cursor.findAll('a.b').map(({ start, end }) => [start, end])).toEqual([
+            [0, 3],
+            [4, 7],
+        ]);
+    });
+
+    it('should find regexp matches with capture groups', () => {
+        const cursor = new Cursor(createTextArea('[one](1) [two](2)'));
+
+        const matches = cursor.findAll(/\[(\w+)\]\((?<url>\d)\)/);
+
+        expect(matches).toHaveLength(2);
+        expect(matches[1]).toEqual({
+            start: 9,
+            end: 17,
+            text: '[two](2)',
+            groups: ['two', '2'],
+            namedGroups: { url: '2' },
+        });
+    });
+
+    it('should skip empty matches', () => {
+        const cursor = new Cursor(createTextArea('abc'));
+
+        expect(cursor.findAll(/x*/)).toEqual([]);
+        expect(cursor.findAll('')).toEqual([]);
+    });
+});
+
+describe('Cursor.replaceAll', () => {
+    it('should replace all matches as a single input', () => {
+        const textarea = createTextArea('foo bar foo');
+        const onInput = jest.fn();
+        textarea.addEventListener('input', onInput);
+
+        const count = new Cursor(textarea).replaceAll('foo', 'baz');
+
+        expect(count).toBe(2);
+        expect(textarea.value).toBe('baz bar baz');
+        expect(onInput).toHaveBeenCalledTimes(1);
+    });
+
+    it('should support capture groups in replacement string', () => {
+        const textarea = createTextArea('[one](1) [two](2) $');
+
+        new Cursor(textarea).replaceAll(/\[(\w+)\]\((?<url>\d)\)/g, '<$<url>:$1> $$');
+
+        expect(textarea.value).toBe('<1:one> $ <2:two> $ $');
+    });
+
+    it('should support replacer function', () => {
+        const textarea = createTextArea('1 2 3');
+
+        new Cursor(textarea).replaceAll(/\d/, (match, offset) => `${Number(match) * 10}@${offset}`);
+
+        expect(textarea.value).toBe('10@0 20@2 30@4');
+    });
+
+    it('should keep selection and scroll position', () => {
+        const textarea = createTextArea('foo bar foo bar');
+        textarea.setSelectionRange(8, 15);
+        textarea.scrollTop = 10;
+
+        new Cursor(textarea).replaceAll('foo', 'f');
+
+        expect(textarea.value).toBe('f bar f bar');
+        expect(textarea.selectionStart).toBe(6);
+        expect(textarea.selectionEnd).toBe(11);
+        expect(textarea.scrollTop).toBe(10);
+    });
+
+    it('should do nothing if there are no matches', () => {
+        const textarea = createTextArea('foo');
+        const onInput = jest.fn();
+        textarea.addEventListener('input', onInput);
+
+        expect(new Cursor(textarea).replaceAll('bar', 'baz')).toBe(0);
+        expect(onInput).not.toHaveBeenCalled();
+    });
+});
+
+describe('Cursor.findNext / Cursor.findPrevious', () => {
+    it('should select next match', () => {
+        const textarea = createTextArea('foo bar foo bar');
+        textarea.setSelectionRange(1, 1);
+        const cursor = new Cursor(textarea);
+
+        expect(cursor.findNext('bar')?.start).toBe(4);
+        expect(cursor.findNext('bar')?.start).toBe(12);
+        expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([12, 15]);
+    });
+
+    it('should wrap search', () => {
+        const textarea = createTextArea('foo bar foo bar');
+        textarea.setSelectionRange(12, 15);
+        const cursor = new Cursor(textarea);
+
+        expect(cursor.findNext('bar')?.start).toBe(4);
+        expect(cursor.findNext('foo', { wrap: false })?.start).toBe(8);
+        expect(cursor.findNext('foo', { wrap: false })).toBeNull();
+    });
+
+    it('should select previous match', () => {
+        const textarea = createTextArea('foo bar foo bar');
+        textarea.setSelectionRange(8, 11);
+        const cursor = new Cursor(textarea);
+
+        expect(cursor.findPrevious(/fo+/)?.start).toBe(0);
+        expect(cursor.findPrevious(/fo+/)?.start).toBe(8);
+        expect(cursor.findPrevious(/fo+/, { wrap: false })?.start).toBe(0);
+        expect(cursor.findPrevious(/fo+/, { wrap: false })).toBeNull();
+    });
+
+    it('should scroll match into view', () => {
+        const textarea = createTextArea(Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n'));
+        Object.defineProperty(textarea, 'clientHeight', { value: 100 });
+        textarea.setSelectionRange(0, 0);
+
+        // jsdom has no layout, every line is 10px high
+        const getCaretRect = jest.spyOn(Cursor.prototype, 'getCaretRect').mockImplementation((position = 0) => ({
+            top: (textarea.value.slice(0, position).split('\n').length - 1) * 10 - textarea.scrollTop,
+            left: 0,
+            width: 0,
+            height: 10,
+        }));
+
+        new Cursor(textarea).findNext('line 50');
+
+        expect(textarea.scrollTop).toBe(410);
+        getCaretRect.mockRestore();
+    });
+});
+
+describe('Cursor.transaction', () => {
+    it('should apply all edits as a single input', () => {
+        const textarea = createTextArea('one two three');
+        const onInput = jest.fn();
+        textarea.addEventListener('input', onInput);
+
+        new Cursor(textarea).transaction((tx) => {
+            tx.insert(0, '# ');
+            tx.replace(4, 7, 'TWO');
+            tx.delete(7, 13);
+        });
+
+        expect(textarea.value).toBe('# one TWO');
+        expect(onInput).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use positions of the value before the transaction regardless of the order', () => {
+        const textarea = createTextArea('abc');
+
+        new Cursor(textarea).transaction((tx) => {
+            tx.insert(3, '!');
+            tx.insert(0, '[');
+            tx.insert(0, '[');
+            tx.replace(1, 2, 'B');
+        });
+
+        expect(textarea.value).toBe('[[aBc!');
+    });
+
+    it('should select range defined by markers', () => {
+        const textarea = createTextArea('image');
+
+        new Cursor(textarea).transaction((tx) => {
+            tx.insert(0, `![${Cursor.MARKER}`);
+            tx.insert(5, `${Cursor.MARKER}](url)`);
+        });
+
+        expect(textarea.value).toBe('![image](url)');
+        expect(textarea.selectionStart).toBe(2);
+        expect(textarea.selectionEnd).toBe(7);
+    });
+
+    it('should map selection through the edits', () => {
+        const textarea = createTextArea('hello world');
+        textarea.setSelectionRange(6, 11);
+
+        new Cursor(textarea).transaction((tx) => tx.insert(0, '>>> ').delete(5, 6));
+
+        expect(textarea.value).toBe('>>> helloworld');
+        expect(textarea.selectionStart).toBe(9);
+        expect(textarea.selectionEnd).toBe(14);
+    });
+
+    it('should map explicitly selected range', () => {
+        const textarea = createTextArea('hello world');
+
+        new Cursor(textarea).transaction((tx) => tx.insert(0, '__').select(0, 5));
+
+        expect(textarea.selectionStart).toBe(2);
+        expect(textarea.selectionEnd).toBe(7);
+    });
+
+    it('should throw on overlapping edits', () => {
+        const textarea = createTextArea('hello world');
+
+        expect(() =>
+            new Cursor(textarea).transaction((tx) => {
+                tx.replace(0, 5, 'a');
+                tx.replace(3, 8, 'b');
+            }),
+        ).toThrow(RangeError);
+        expect(textarea.value).toBe('hello world');
+    });
+});
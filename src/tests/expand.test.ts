@@ -0,0 +1,101 @@
+import { Cursor } from '../lib/Cursor';
+import { MemoryBuffer } from '../lib/TextBuffer';
+
+/** `[` and `]` in the text define the selection */
+const createCursor = (text: string) => {
+    const start = text.indexOf('[');
+    const end = text.indexOf(']') - 1;
+    const buffer = new MemoryBuffer(text.replace('[', '').replace(']', ''), start, end);
+    return { buffer, cursor: new Cursor(buffer) };
+};
+
+const selected = (buffer: MemoryBuffer) => buffer.value.slice(buffer.selectionStart, buffer.selectionEnd);
+
+describe('Cursor.wordAt', () => {
+    it('should return range of the word', () => {
+        const cursor = new Cursor(new MemoryBuffer('hello wörld_2!', 8));
+
+        expect(cursor.wordAt()).toEqual({ start: 6, end: 13 });
+        expect(cursor.wordAt(0)).toEqual({ start: 0, end: 5 });
+        expect(cursor.wordAt(14)).toBeNull();
+    });
+});
+
+describe('Cursor.expandSelection', () => {
+    it('should expand from word to the whole text', () => {
+        const text = ['# title', '', '- item **bo[]ld** text', '  continuation', '- next'].join('\n');
+        const { buffer, cursor } = createCursor(text);
+        const steps: string[] = [];
+
+        while (cursor.expandSelection()) {
+            steps.push(selected(buffer));
+        }
+
+        expect(steps).toEqual([
+            'bold',
+            '**bold**',
+            '- item **bold** text',
+            '- item **bold** text\n  continuation',
+            '- item **bold** text\n  continuation\n- next',
+            buffer.value,
+        ]);
+    });
+
+    it('should expand to the list item before the paragraph', () => {
+        const text = ['- one', '    - two', '      more [t]ext', '- three'].join('\n');
+        const { buffer, cursor } = createCursor(text);
+
+        cursor.expandSelection(); // word
+        cursor.expandSelection(); // line content
+        expect(selected(buffer)).toBe('more text');
+        cursor.expandSelection(); // line
+        cursor.expandSelection();
+        expect(selected(buffer)).toBe('    - two\n      more text');
+        cursor.expandSelection();
+        expect(selected(buffer)).toBe('- one\n    - two\n      more text');
+    });
+
+    it('should expand to the code without fences first', () => {
+        const text = ['```', 'a = 1', 'b = [2]', '```'].join('\n');
+        const { buffer, cursor } = createCursor(text);
+
+        cursor.expandSelection();
+        expect(selected(buffer)).toBe('b = 2');
+        cursor.expandSelection();
+        expect(selected(buffer)).toBe('a = 1\nb = 2');
+        cursor.expandSelection();
+        expect(selected(buffer)).toBe(buffer.value);
+    });
+
+    it('should return false if everything is selected', () => {
+        const buffer = new MemoryBuffer('text', 0, 4);
+
+        expect(new Cursor(buffer).expandSelection()).toBe(false);
+    });
+});
+
+describe('Cursor.shrinkSelection', () => {
+    it('should revert expansions in order', () => {
+        const { buffer, cursor } = createCursor('one *tw[]o* three');
+
+        cursor.expandSelection();
+        cursor.expandSelection();
+        expect(selected(buffer)).toBe('*two*');
+
+        expect(cursor.shrinkSelection()).toBe(true);
+        expect(selected(buffer)).toBe('two');
+        expect(cursor.shrinkSelection()).toBe(true);
+        expect([buffer.selectionStart, buffer.selectionEnd]).toEqual([7, 7]);
+        expect(cursor.shrinkSelection()).toBe(false);
+    });
+
+    it('should not shrink after the selection is changed', () => {
+        const { buffer, cursor } = createCursor('one t[]wo');
+
+        cursor.expandSelection();
+        buffer.setSelectionRange(0, 3);
+
+        expect(cursor.shrinkSelection()).toBe(false);
+        expect(selected(buffer)).toBe('one');
+    });
+});
@@ -0,0 +1,86 @@
+import { Cursor } from '../lib/Cursor';
+import { graphemeBoundaries, snapToGrapheme } from '../lib/graphemes';
+import { MemoryBuffer } from '../lib/TextBuffer';
+
+const FAMILY = '👨‍👩‍👧';
+const FLAG = '🇺🇦';
+const ACCENTED = 'e\u0301';
+
+const hasLoneSurrogate = (text: string) =>
+    /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/.test(text);
+
+describe('graphemes', () => {
+    it('should return cluster boundaries', () => {
+        expect(graphemeBoundaries(`a${FAMILY}${ACCENTED}\r\n`)).toEqual([
+            0,
+            1,
+            1 + FAMILY.length,
+            3 + FAMILY.length,
+            5 + FAMILY.length,
+        ]);
+    });
+
+    it('should snap position out of clusters', () => {
+        const text = `a${FLAG}b`;
+
+        expect(snapToGrapheme(text, 2)).toBe(1);
+        expect(snapToGrapheme(text, 2, 'forward')).toBe(5);
+        expect(snapToGrapheme(text, 5, 'forward')).toBe(5);
+        expect(snapToGrapheme(`${ACCENTED}`, 1, 'forward')).toBe(2);
+        expect(snapToGrapheme('a\r\nb', 2)).toBe(1);
+    });
+
+    it('should work without Intl.Segmenter', () => {
+        const { Segmenter } = Intl as unknown as { Segmenter: unknown };
+        delete (Intl as unknown as { Segmenter?: unknown }).Segmenter;
+
+        jest.isolateModules(() => {
+            const graphemes = jest.requireActual<typeof import('../lib/graphemes')>('../lib/graphemes');
+
+            expect(graphemes.graphemeBoundaries(`a${FAMILY}${FLAG}${ACCENTED}👍🏽️\r\n`)).toEqual([
+                0, 1, 9, 13, 15, 20, 22,
+            ]);
+        });
+
+        Object.assign(Intl, { Segmenter });
+    });
+});
+
+describe('grapheme-aware Cursor', () => {
+    it('should not split emoji with relative selection', () => {
+        const buffer = new MemoryBuffer(`a${FAMILY}b`, 1);
+        const cursor = new Cursor(buffer);
+
+        cursor.select({ fromCurrentStart: 1, fromCurrentEnd: 1 });
+        expect(buffer.selectionStart).toBe(1 + FAMILY.length);
+
+        cursor.select({ fromCurrentStart: -1, fromCurrentEnd: -1 });
+        expect(buffer.selectionStart).toBe(1);
+
+        cursor.select({ fromCurrentStart: 0, fromCurrentEnd: 2 });
+        expect(buffer.value.slice(buffer.selectionStart, buffer.selectionEnd)).toBe(FAMILY);
+    });
+
+    it('should expand absolute selection to whole clusters', () => {
+        const buffer = new MemoryBuffer(`${FLAG}${ACCENTED}`);
+
+        new Cursor(buffer).select({ start: 1, end: 5 });
+        expect([buffer.selectionStart, buffer.selectionEnd]).toEqual([0, 6]);
+    });
+
+    it('should not wrap a part of emoji', () => {
+        const buffer = new MemoryBuffer(`hi ${FLAG}!`, 4, 5);
+
+        new Cursor(buffer).wrap('**');
+        expect(buffer.value).toBe(`hi **${FLAG}**!`);
+        expect(hasLoneSurrogate(buffer.value)).toBe(false);
+    });
+
+    it('should keep combining marks and emoji in words', () => {
+        const cursor = new Cursor(new MemoryBuffer(`cafe\u0301 𝒳y ${FAMILY}`));
+
+        expect(cursor.wordAt(2)).toEqual({ start: 0, end: 5 });
+        expect(cursor.wordAt(8)).toEqual({ start: 6, end: 9 });
+        expect(cursor.wordAt(12)).toBeNull();
+    });
+});
@@ -12,6 +12,16 @@ import {
     blockQuotesCommandHandler,
     strikeThroughCommandHandler,
     createHeadlineCommandHandler,
+    selectNextOccurrenceCommandHandler,
+    moveLineUpCommandHandler,
+    moveLineDownCommandHandler,
+    duplicateLineCommandHandler,
+    joinLinesCommandHandler,
+    deleteLineCommandHandler,
+    taskListCommandHandler,
+    headingIncreaseCommandHandler,
+    headingDecreaseCommandHandler,
+    toggleTaskCommandHandler,
 } from '../lib/handlers';
 import { CommandHandlerContext, defaultTextareaMarkdownOptions } from '../lib/types';
 
@@ -40,6 +50,23 @@ describe('boldCommandHandler', () => {
         boldCommandHandler(ctx);
         expect(ctx.textarea.value).toBe('**bold**');
     });
+
+    it('should wrap the word under the cursor with expandWrapToWord option', () => {
+        const ctx = createContext('hello world', 8, 8);
+        boldCommandHandler({ ...ctx, options: { ...ctx.options, expandWrapToWord: true } });
+        expect(ctx.textarea.value).toBe('hello **world**');
+        expect(ctx.textarea.selectionStart).toBe(8);
+        expect(ctx.textarea.selectionEnd).toBe(13);
+
+        boldCommandHandler({ ...ctx, options: { ...ctx.options, expandWrapToWord: true } });
+        expect(ctx.textarea.value).toBe('hello world');
+    });
+
+    it('should use placeholder outside of a word with expandWrapToWord option', () => {
+        const ctx = createContext('hello ', 6, 6);
+        boldCommandHandler({ ...ctx, options: { ...ctx.options, expandWrapToWord: true } });
+        expect(ctx.textarea.value).toBe('hello **bold**');
+    });
 });
 
 describe('italicCommandHandler', () => {
@@ -54,6 +81,115 @@ describe('italicCommandHandler', () => {
         italicCommandHandler(ctx);
         expect(ctx.textarea.value).toBe('*italic*');
     });
+
+    it('should not wrap the word under the cursor by default', () => {
+        const ctx = createContext('hello', 2, 2);
+        italicCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('he*italic*llo');
+    });
+});
+
+describe('emphasis toggling', () => {
+    const selected = (ctx: { textarea: HTMLTextAreaElement }) =>
+        ctx.textarea.value.slice(ctx.textarea.selectionStart, ctx.textarea.selectionEnd);
+
+    it('should remove the enclosing span under the cursor', () => {
+        const ctx = createContext('a **some bold text** b', 10, 10);
+        boldCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('a some bold text b');
+        expect(ctx.textarea.selectionStart).toBe(8);
+    });
+
+    it('should split the span around the partial selection', () => {
+        const ctx = createContext('**some bold text**', 7, 11);
+        boldCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('**some** bold **text**');
+        expect(selected(ctx)).toBe('bold');
+
+        const edge = createContext('_some text_', 1, 6);
+        italicCommandHandler(edge);
+        expect(edge.textarea.value).toBe('some _text_');
+        expect(selected(edge)).toBe('some ');
+    });
+
+    it('should toggle a part of triple delimiters', () => {
+        const bold = createContext('***both***', 5, 5);
+        boldCommandHandler(bold);
+        expect(bold.textarea.value).toBe('*both*');
+
+        const italic = createContext('***both***', 3, 7);
+        italicCommandHandler(italic);
+        expect(italic.textarea.value).toBe('**both**');
+        expect(selected(italic)).toBe('both');
+    });
+
+    it('should detect spans of any syntax', () => {
+        const bold = createContext('_**mixed**_', 5, 5);
+        boldCommandHandler(bold);
+        expect(bold.textarea.value).toBe('_mixed_');
+
+        const italic = createContext('__bold__ *it*', 2, 6);
+        italicCommandHandler(italic);
+        expect(italic.textarea.value).toBe('__*bold*__ *it*');
+
+        const underscore = createContext('_**mixed**_', 5, 5);
+        italicCommandHandler(underscore);
+        expect(underscore.textarea.value).toBe('**mixed**');
+    });
+
+    it('should merge spans inside of the selection into the new one', () => {
+        const ctx = createContext('x **a** y **b** z', 0, 17);
+        boldCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('**x a y b z**');
+        expect(selected(ctx)).toBe('x a y b z');
+
+        const italic = createContext('see *one* and _two_ **bold**', 0, 28);
+        italicCommandHandler(italic);
+        expect(italic.textarea.value).toBe('*see one and two **bold***');
+    });
+
+    it('should toggle every range inside of the same span', () => {
+        const carets = createContext('a **some bold text** b', 0, 0);
+        carets.cursor.setRanges([
+            { start: 6, end: 6 },
+            { start: 14, end: 14 },
+        ]);
+        boldCommandHandler(carets);
+        expect(carets.textarea.value).toBe('a some bold text b');
+        expect(carets.cursor.ranges).toEqual([
+            { start: 4, end: 4 },
+            { start: 12, end: 12 },
+        ]);
+
+        const selections = createContext('**some bold text**', 0, 0);
+        selections.cursor.setRanges([
+            { start: 2, end: 6 },
+            { start: 12, end: 16 },
+        ]);
+        boldCommandHandler(selections);
+        expect(selections.textarea.value).toBe('some **bold** text');
+        expect(selections.cursor.ranges.map(({ start, end }) => selections.textarea.value.slice(start, end))).toEqual([
+            'some',
+            'text',
+        ]);
+    });
+
+    it('should not treat underscores inside words as delimiters', () => {
+        const caret = createContext('call my_var_name here', 10, 10);
+        italicCommandHandler(caret);
+        expect(caret.textarea.value).toBe('call my_va*italic*r_name here');
+
+        const selection = createContext('see snake_case_name', 10, 14);
+        italicCommandHandler(selection);
+        expect(selection.textarea.value).toBe('see snake_*case*_name');
+        expect(selected(selection)).toBe('case');
+    });
+
+    it('should not detect delimiters in link destinations', () => {
+        const ctx = createContext('[docs](https://a.com/some_page_name) text', 28, 28);
+        italicCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('[docs](https://a.com/some_pa*italic*ge_name) text');
+    });
 });
 
 describe('linkCommandHandler', () => {
@@ -136,6 +272,37 @@ describe('codeBlockCommandHandler', () => {
         codeBlockCommandHandler(ctx);
         expect(ctx.textarea.value).toBe('```\ncode block\n```');
     });
+
+    it('should add the language from the argument or the option', () => {
+        const ctx = createContext('x', 0, 1);
+        codeBlockCommandHandler(ctx, 'ts');
+        expect(ctx.textarea.value).toBe('```ts\nx\n```');
+
+        const withOption = createContext('y', 0, 1);
+        codeBlockCommandHandler({ ...withOption, options: { ...withOption.options, codeBlockLanguage: 'sh' } });
+        expect(withOption.textarea.value).toBe('```sh\ny\n```');
+    });
+
+    it('should use a longer fence if the content contains fences', () => {
+        const ctx = createContext('```js\nx\n```', 0, 12);
+        codeBlockCommandHandler(ctx, 'md');
+        expect(ctx.textarea.value).toBe('````md\n```js\nx\n```\n````');
+    });
+
+    it('should unwrap the fence around the cursor', () => {
+        const ctx = createContext('text\n```ts\nconst a = 1;\nconst b = 2;\n```\nmore', 20, 20);
+        codeBlockCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('text\nconst a = 1;\nconst b = 2;\nmore');
+        expect(ctx.textarea.value.slice(ctx.textarea.selectionStart, ctx.textarea.selectionEnd)).toBe(
+            'const a = 1;\nconst b = 2;',
+        );
+    });
+
+    it('should unwrap not closed fence', () => {
+        const ctx = createContext('```\ncode', 6, 6);
+        codeBlockCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('code');
+    });
 });
 
 describe('codeInlineCommandHandler', () => {
@@ -150,6 +317,38 @@ describe('codeInlineCommandHandler', () => {
         codeInlineCommandHandler(ctx);
         expect(ctx.textarea.value).toBe('`code`');
     });
+
+    it('should use a longer delimiter and padding for backticks in the content', () => {
+        const ctx = createContext('a `b` c', 0, 7);
+        codeInlineCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('``a `b` c``');
+
+        const padded = createContext('`x``', 0, 4);
+        codeInlineCommandHandler(padded);
+        expect(padded.textarea.value).toBe('``` `x`` ```');
+        expect(padded.textarea.value.slice(padded.textarea.selectionStart, padded.textarea.selectionEnd)).toBe('`x``');
+    });
+
+    it('should not split graphemes', () => {
+        const astral = createContext('x 👍 y', 2, 3);
+        codeInlineCommandHandler(astral);
+        expect(astral.textarea.value).toBe('x `👍` y');
+
+        const family = createContext('a 👨‍👩‍👧 b', 2, 5);
+        codeInlineCommandHandler(family);
+        expect(family.textarea.value).toBe('a `👨‍👩‍👧` b');
+    });
+
+    it('should unwrap the span around the selection', () => {
+        const ctx = createContext('see `` `x` `` here', 8, 9);
+        codeInlineCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('see `x` here');
+        expect(ctx.textarea.value.slice(ctx.textarea.selectionStart, ctx.textarea.selectionEnd)).toBe('`x`');
+
+        const whole = createContext('`code`', 0, 6);
+        codeInlineCommandHandler(whole);
+        expect(whole.textarea.value).toBe('code');
+    });
 });
 
 describe('codeCommandHandler', () => {
@@ -236,4 +435,178 @@ describe('createHeadlineCommandHandler', () => {
         createHeadlineCommandHandler(1)(ctx);
         expect(ctx.textarea.value).toBe('# headline 1');
     });
+
+    it('should compare the actual heading level', () => {
+        const ctx = createContext('#### Title ##', 0, 0);
+        createHeadlineCommandHandler(4)(ctx);
+        expect(ctx.textarea.value).toBe('Title');
+
+        createHeadlineCommandHandler(1)(ctx);
+        createHeadlineCommandHandler(1)(ctx);
+        expect(ctx.textarea.value).toBe('Title');
+    });
+
+    it('should convert setext heading', () => {
+        const ctx = createContext('> Title\n> ---\ntext', 12, 12);
+        createHeadlineCommandHandler(2)(ctx);
+        expect(ctx.textarea.value).toBe('> ## Title\ntext');
+        expect(ctx.textarea.value.slice(ctx.textarea.selectionStart, ctx.textarea.selectionEnd)).toBe('Title');
+    });
+});
+
+describe('heading level commands', () => {
+    it('should promote all touched lines', () => {
+        const ctx = createContext('text\n\n## two\nsetext\n===', 0, 21);
+        headingIncreaseCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('###### text\n\n# two\nsetext\n===');
+    });
+
+    it('should demote headings to paragraph', () => {
+        const ctx = createContext('###### six\nTitle\n---', 0, 20);
+        headingDecreaseCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('six\n### Title');
+    });
+
+    it('should keep the caret in the content', () => {
+        const ctx = createContext('## title', 5, 5);
+        headingIncreaseCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('# title');
+        expect(ctx.textarea.selectionStart).toBe(4);
+    });
+});
+
+describe('selectNextOccurrenceCommandHandler', () => {
+    it('should add next occurrence and prevent default shortcut behavior', () => {
+        const ctx = createContext('foo bar foo', 0, 3);
+        const keyEvent = new KeyboardEvent('keydown', { cancelable: true });
+
+        selectNextOccurrenceCommandHandler({ ...ctx, keyEvent });
+
+        expect(ctx.cursor.ranges).toHaveLength(2);
+        expect(keyEvent.defaultPrevented).toBe(true);
+    });
+});
+
+describe('moveLineUpCommandHandler', () => {
+    it('should move the line with the cursor up', () => {
+        const ctx = createContext('one\ntwo\nthree', 6, 6);
+        moveLineUpCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('two\none\nthree');
+        expect(ctx.textarea.selectionStart).toBe(2);
+    });
+
+    it('should move all selected lines and keep selection', () => {
+        const ctx = createContext('one\ntwo\nthree\nfour', 5, 10);
+        moveLineUpCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('two\nthree\none\nfour');
+        expect(ctx.textarea.value.slice(ctx.textarea.selectionStart, ctx.textarea.selectionEnd)).toBe('wo\nth');
+    });
+
+    it('should do nothing on the first line', () => {
+        const ctx = createContext('one\ntwo', 1, 1);
+        const keyEvent = new KeyboardEvent('keydown', { cancelable: true });
+        moveLineUpCommandHandler({ ...ctx, keyEvent });
+        expect(ctx.textarea.value).toBe('one\ntwo');
+        expect(keyEvent.defaultPrevented).toBe(false);
+    });
+});
+
+describe('moveLineDownCommandHandler', () => {
+    it('should move the line down as a single input', () => {
+        const ctx = createContext('one\ntwo\nthree', 1, 1);
+        const onInput = jest.fn();
+        ctx.textarea.addEventListener('input', onInput);
+
+        moveLineDownCommandHandler(ctx);
+
+        expect(ctx.textarea.value).toBe('two\none\nthree');
+        expect(ctx.textarea.selectionStart).toBe(5);
+        expect(onInput).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the line if selection ends at its beginning', () => {
+        const ctx = createContext('one\ntwo\nthree', 0, 4);
+        moveLineDownCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('two\none\nthree');
+    });
+});
+
+describe('duplicateLineCommandHandler', () => {
+    it('should copy the lines below and select the copy', () => {
+        const ctx = createContext('one\ntwo\nthree', 1, 6);
+        duplicateLineCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('one\ntwo\none\ntwo\nthree');
+        expect([ctx.textarea.selectionStart, ctx.textarea.selectionEnd]).toEqual([9, 14]);
+    });
+});
+
+describe('joinLinesCommandHandler', () => {
+    it('should join the line with the next one', () => {
+        const ctx = createContext('one\n    two\nthree', 1, 1);
+        joinLinesCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('one two\nthree');
+        expect(ctx.textarea.selectionStart).toBe(1);
+    });
+
+    it('should join all selected lines', () => {
+        const ctx = createContext('one\ntwo\n\nthree\nfour', 0, 12);
+        joinLinesCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('one two three\nfour');
+    });
+});
+
+describe('deleteLineCommandHandler', () => {
+    it('should delete the selected lines', () => {
+        const ctx = createContext('one\ntwo\nthree', 5, 9);
+        deleteLineCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('one');
+        expect(ctx.textarea.selectionStart).toBe(3);
+    });
+
+    it('should delete the line with its line break', () => {
+        const ctx = createContext('one\ntwo\nthree', 1, 1);
+        deleteLineCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('two\nthree');
+        expect(ctx.textarea.selectionStart).toBe(0);
+    });
+});
+
+describe('taskListCommandHandler', () => {
+    it('should convert lines to task items', () => {
+        const ctx = createContext('buy milk\n  - call mom\n2. [x] done', 0, 28);
+        taskListCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('* [ ] buy milk\n  - [ ] call mom\n2. [x] done');
+    });
+
+    it('should remove task markup if all lines are tasks', () => {
+        const ctx = createContext('- [ ] one\n  * [x] two', 0, 20);
+        taskListCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('one\n  two');
+    });
+});
+
+describe('toggleTaskCommandHandler', () => {
+    it('should flip every selected task and keep selection', () => {
+        const ctx = createContext('- [ ] one\ntext\n1. [x] two', 2, 22);
+        toggleTaskCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('- [x] one\ntext\n1. [ ] two');
+        expect([ctx.textarea.selectionStart, ctx.textarea.selectionEnd]).toEqual([2, 22]);
+    });
+
+    it('should do nothing outside of task items', () => {
+        const ctx = createContext('- one', 3, 3);
+        toggleTaskCommandHandler(ctx);
+        expect(ctx.textarea.value).toBe('- one');
+    });
+});
+
+describe('multiple ranges', () => {
+    it('should apply bold to every range', () => {
+        const ctx = createContext('foo bar foo', 0, 3);
+        ctx.cursor.selectNextOccurrence();
+
+        boldCommandHandler(ctx);
+
+        expect(ctx.textarea.value).toBe('**foo** bar **foo**');
+    });
 });
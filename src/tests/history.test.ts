@@ -0,0 +1,267 @@
+import { bootstrapTextareaMarkdown, bootstrapTextBuffer } from '../lib/bootstrap';
+import { Cursor } from '../lib/Cursor';
+import { History } from '../lib/history';
+import { MemoryBuffer } from '../lib/TextBuffer';
+
+const createTextArea = (content: string = '') => {
+    const el = document.createElement('textarea');
+    el.value = content;
+    document.body.appendChild(el);
+    return el;
+};
+
+const type = (textarea: HTMLTextAreaElement, text: string) => {
+    const position = textarea.selectionStart;
+    textarea.value = textarea.value.slice(0, position) + text + textarea.value.slice(textarea.selectionEnd);
+    textarea.setSelectionRange(position + text.length, position + text.length);
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const backspace = (textarea: HTMLTextAreaElement) => {
+    const position = textarea.selectionStart;
+    textarea.value = textarea.value.slice(0, position - 1) + textarea.value.slice(position);
+    textarea.setSelectionRange(position - 1, position - 1);
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const press = (textarea: HTMLTextAreaElement, key: string, init: KeyboardEventInit = {}) => {
+    const event = new KeyboardEvent('keydown', { key, code: `Key${key.toUpperCase()}`, cancelable: true, ...init });
+    textarea.dispatchEvent(event);
+    return event;
+};
+
+describe('History', () => {
+    it('should revert and reapply edits', () => {
+        const buffer = new MemoryBuffer('hello world', 0, 5);
+        const history = new History(buffer);
+
+        history.record(0, 5, 'bye', () => buffer.replaceRange(0, 5, 'bye'));
+        expect(buffer.value).toBe('bye world');
+
+        expect(history.undo()).toBe(true);
+        expect(buffer.value).toBe('hello world');
+        expect([buffer.selectionStart, buffer.selectionEnd]).toEqual([0, 5]);
+
+        expect(history.redo()).toBe(true);
+        expect(buffer.value).toBe('bye world');
+        expect([buffer.selectionStart, buffer.selectionEnd]).toEqual([3, 3]);
+
+        expect(history.redo()).toBe(false);
+    });
+
+    it('should record changes made outside as well', () => {
+        const buffer = new MemoryBuffer('hello');
+        const history = new History(buffer);
+
+        buffer.replaceRange(5, 5, ' world');
+        history.record(0, 0, '# ', () => buffer.replaceRange(0, 0, '# '));
+
+        history.undo();
+        expect(buffer.value).toBe('hello world');
+        history.undo();
+        expect(buffer.value).toBe('hello');
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('should record nested edits as a part of the outer one', () => {
+        const buffer = new MemoryBuffer('text');
+        const history = new History(buffer);
+
+        history.record(0, 0, '# ', () => {
+            buffer.replaceRange(0, 0, '# ');
+            history.record(6, 6, '!', () => buffer.replaceRange(6, 6, '!'));
+            expect(history.isApplying).toBe(true);
+        });
+        expect(buffer.value).toBe('# text!');
+        expect(history.isApplying).toBe(false);
+
+        history.undo();
+        expect(buffer.value).toBe('text');
+        expect(history.canUndo).toBe(false);
+
+        history.redo();
+        expect(buffer.value).toBe('# text!');
+    });
+
+    it('should drop redo stack on a new change', () => {
+        const buffer = new MemoryBuffer('a');
+        const history = new History(buffer);
+
+        history.record(1, 1, 'b', () => buffer.replaceRange(1, 1, 'b'));
+        history.undo();
+        history.record(1, 1, 'c', () => buffer.replaceRange(1, 1, 'c'));
+
+        expect(history.canRedo).toBe(false);
+        expect(buffer.value).toBe('ac');
+    });
+
+    it('should respect the limit', () => {
+        const buffer = new MemoryBuffer('');
+        const history = new History(buffer, { limit: 2 });
+
+        ['a', 'b', 'c'].forEach((char) => {
+            history.record(buffer.value.length, buffer.value.length, char, () =>
+                buffer.replaceRange(buffer.value.length, buffer.value.length, char),
+            );
+        });
+
+        history.undo();
+        history.undo();
+        expect(history.undo()).toBe(false);
+        expect(buffer.value).toBe('a');
+    });
+});
+
+describe('history with textarea', () => {
+    let textarea: HTMLTextAreaElement;
+
+    beforeEach(() => {
+        textarea = createTextArea();
+    });
+
+    afterEach(() => {
+        document.body.removeChild(textarea);
+    });
+
+    it('should undo toolbar commands', () => {
+        textarea.value = 'hello';
+        textarea.setSelectionRange(0, 5);
+        const { trigger, dispose } = bootstrapTextareaMarkdown(textarea, { options: { enableHistory: true } });
+
+        trigger('bold');
+        expect(textarea.value).toBe('**hello**');
+
+        trigger('undo');
+        expect(textarea.value).toBe('hello');
+        expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([0, 5]);
+
+        trigger('redo');
+        expect(textarea.value).toBe('**hello**');
+
+        dispose();
+    });
+
+    it('should fold edits of input listeners into the command step', () => {
+        textarea.value = '1. a\n2. b\n3. c';
+        textarea.setSelectionRange(6, 6);
+        const { trigger, dispose } = bootstrapTextareaMarkdown(textarea, {
+            options: { enableHistory: true, enableListRenumberExtension: true },
+        });
+
+        trigger('delete-line');
+        expect(textarea.value).toBe('1. a\n2. c');
+
+        trigger('undo');
+        expect(textarea.value).toBe('1. a\n2. b\n3. c');
+
+        trigger('undo');
+        expect(textarea.value).toBe('1. a\n2. b\n3. c');
+
+        trigger('redo');
+        expect(textarea.value).toBe('1. a\n2. c');
+
+        dispose();
+    });
+
+    it('should group consecutive typing', () => {
+        const { trigger, dispose } = bootstrapTextareaMarkdown(textarea, { options: { enableHistory: true } });
+
+        type(textarea, 'h');
+        type(textarea, 'e');
+        type(textarea, 'y');
+        type(textarea, '\n');
+        type(textarea, 'y');
+        type(textarea, 'o');
+        backspace(textarea);
+
+        trigger('undo');
+        expect(textarea.value).toBe('hey\n');
+        trigger('undo');
+        expect(textarea.value).toBe('hey');
+        trigger('undo');
+        expect(textarea.value).toBe('');
+
+        dispose();
+    });
+
+    it('should not group typing after a pause', () => {
+        const now = jest.spyOn(Date, 'now');
+        const { trigger, dispose } = bootstrapTextareaMarkdown(textarea, { options: { enableHistory: true } });
+
+        now.mockReturnValue(0);
+        type(textarea, 'a');
+        now.mockReturnValue(5000);
+        type(textarea, 'b');
+
+        trigger('undo');
+        expect(textarea.value).toBe('a');
+
+        now.mockRestore();
+        dispose();
+    });
+
+    it('should keep typing and commands as separate steps', () => {
+        const { trigger, dispose } = bootstrapTextareaMarkdown(textarea, { options: { enableHistory: true } });
+
+        type(textarea, 'hello');
+        textarea.setSelectionRange(0, 5);
+        trigger('italic');
+        expect(textarea.value).toBe('*hello*');
+
+        trigger('undo');
+        expect(textarea.value).toBe('hello');
+        trigger('undo');
+        expect(textarea.value).toBe('');
+
+        dispose();
+    });
+
+    it('should restore scroll position', () => {
+        textarea.value = 'hello';
+        textarea.setSelectionRange(0, 5);
+        const { trigger, dispose } = bootstrapTextareaMarkdown(textarea, { options: { enableHistory: true } });
+
+        textarea.scrollTop = 40;
+        trigger('bold');
+        textarea.scrollTop = 0;
+        trigger('undo');
+
+        expect(textarea.scrollTop).toBe(40);
+        dispose();
+    });
+
+    it('should handle shortcuts only if history is enabled', () => {
+        textarea.value = 'hello';
+        textarea.setSelectionRange(0, 5);
+        const { dispose } = bootstrapTextareaMarkdown(textarea, { options: { enableHistory: true } });
+
+        press(textarea, 'b', { ctrlKey: true });
+        expect(press(textarea, 'z', { ctrlKey: true }).defaultPrevented).toBe(true);
+        expect(textarea.value).toBe('hello');
+        expect(press(textarea, 'z', { ctrlKey: true, shiftKey: true }).defaultPrevented).toBe(true);
+        expect(textarea.value).toBe('**hello**');
+
+        dispose();
+
+        const { dispose: disposeWithoutHistory } = bootstrapTextareaMarkdown(textarea);
+        expect(press(textarea, 'z', { ctrlKey: true }).defaultPrevented).toBe(false);
+        expect(new Cursor(textarea).undo()).toBe(false);
+        disposeWithoutHistory();
+    });
+});
+
+describe('history with text buffer', () => {
+    it('should undo commands', () => {
+        const buffer = new MemoryBuffer('hello', 0, 5);
+        const { trigger, cursor } = bootstrapTextBuffer(buffer, { options: { enableHistory: true } });
+
+        trigger('bold');
+        cursor.transaction((tx) => tx.insert(0, '# ').insert(buffer.value.length, '!'));
+        expect(buffer.value).toBe('# **hello**!');
+
+        trigger('undo');
+        expect(buffer.value).toBe('**hello**');
+        trigger('undo');
+        expect(buffer.value).toBe('hello');
+    });
+});
@@ -436,6 +436,45 @@ const testCases: TestCase[] = [
             <>`,
     },
 
+    {
+        description: 'should continue task list with unchecked box',
+        input: stripIndent`
+            - [x] todo 1
+            1. [X] todo 2<>`,
+
+        act: () => userEvent.keyboard('{enter}'),
+
+        expected: stripIndent`
+            - [x] todo 1
+            1. [X] todo 2
+            2. [ ] <>`,
+    },
+
+    {
+        description: 'should break wrap on empty task item',
+        input: stripIndent`
+            - [ ] todo 1
+            - [ ] <>`,
+
+        act: () => userEvent.keyboard('{enter}'),
+
+        expected: stripIndent`
+            - [ ] todo 1
+            
+            <>`,
+    },
+
+    {
+        description: 'should toggle task on ctrl+enter without line break',
+        input: stripIndent`
+            - [ ] to<>do`,
+
+        act: () => userEvent.keyboard('{Control>}{enter}{/Control}'),
+
+        expected: stripIndent`
+            - [x] to<>do`,
+    },
+
     {
         description: 'should wrap custom checklist',
         options: { customPrefixWrapping: ['- [] '] },
@@ -685,6 +724,71 @@ describe('TextareaMarkdown component usage', () => {
         );
     });
 
+    test('should enhance callback ref', () => {
+        let mdRef: TextareaMarkdownRef | null = null;
+
+        const view = render(<TextareaMarkdown ref={(el) => void (mdRef = el)} />);
+
+        expect(mdRef).toBeInstanceOf(HTMLTextAreaElement);
+        expect(mdRef!.cursor).toBeInstanceOf(Cursor);
+
+        view.unmount();
+
+        expect(mdRef).toBeNull();
+    });
+
+    test('should re-bootstrap when options are changed', () => {
+        let mdRef: React.RefObject<TextareaMarkdownRef>;
+
+        const Example: FC<{ options: Partial<TextareaMarkdownOptions> }> = ({ options }) => {
+            mdRef = useRef<TextareaMarkdownRef>(null);
+            return <TextareaMarkdown options={options} ref={mdRef} />;
+        };
+
+        const view = render(<Example options={{ preferredBoldSyntax: '**' }} />);
+        view.rerender(<Example options={{ preferredBoldSyntax: '__' }} />);
+
+        act(() => mdRef.current?.trigger('bold'));
+
+        expect(mdRef!.current?.value).toBe('__bold__');
+    });
+
+    test('should call the latest command handler without re-bootstrapping', () => {
+        const first = mockFn();
+        const second = mockFn();
+        let mdRef: React.RefObject<TextareaMarkdownRef>;
+
+        const Example: FC<{ handler: () => void }> = ({ handler }) => {
+            mdRef = useRef<TextareaMarkdownRef>(null);
+            return <TextareaMarkdown commands={[{ name: 'test', handler }]} ref={mdRef} />;
+        };
+
+        const view = render(<Example handler={first} />);
+        const trigger = mdRef!.current?.trigger;
+        view.rerender(<Example handler={second} />);
+
+        act(() => mdRef.current?.trigger('test'));
+
+        expect(mdRef!.current?.trigger).toBe(trigger);
+        expect(first).not.toBeCalled();
+        expect(second).toBeCalled();
+    });
+
+    test('should remove listeners on unmount', () => {
+        const handler = mockFn();
+
+        const view = render(<TextareaMarkdown commands={[{ name: 'test', handler, shortcut: 'ctrl+e' }]} />);
+        const textarea = view.container.querySelector('textarea')!;
+
+        textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'e', code: 'KeyE', ctrlKey: true }));
+        expect(handler).toBeCalledTimes(1);
+
+        view.unmount();
+
+        textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'e', code: 'KeyE', ctrlKey: true }));
+        expect(handler).toBeCalledTimes(1);
+    });
+
     // TODO shortcuts firing doesn't work for Mousetrap.js
     test.skip('should trigger command via shortcuts', async () => {
         const handler = mockFn();
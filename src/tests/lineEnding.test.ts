@@ -0,0 +1,78 @@
+import { Cursor } from '../lib/Cursor';
+import {
+    codeBlockCommandHandler,
+    deleteLineCommandHandler,
+    duplicateLineCommandHandler,
+    joinLinesCommandHandler,
+    moveLineUpCommandHandler,
+} from '../lib/handlers';
+import { MemoryBuffer } from '../lib/TextBuffer';
+import { defaultTextareaMarkdownOptions } from '../lib/types';
+
+const run = (handler: typeof moveLineUpCommandHandler, text: string, start: number, end = start) => {
+    const buffer = new MemoryBuffer(text, start, end);
+    const cursor = new Cursor(buffer);
+    handler({ cursor, options: defaultTextareaMarkdownOptions });
+    return buffer;
+};
+
+describe('CRLF documents', () => {
+    it('should insert line breaks of the document', () => {
+        const buffer = new MemoryBuffer('one\r\ntwo');
+        const cursor = new Cursor(buffer);
+
+        cursor.insert('\nthree\n');
+        expect(buffer.value).toBe('one\r\ntwo\r\nthree\r\n');
+        expect(cursor.lineEnding).toBe('\r\n');
+    });
+
+    it('should keep the selection after replacements with line breaks', () => {
+        const buffer = new MemoryBuffer('a;b;c\r\nend', 7, 10);
+        const cursor = new Cursor(buffer);
+
+        expect(cursor.replaceAll(';', '\n')).toBe(2);
+        expect(buffer.value).toBe('a\r\nb\r\nc\r\nend');
+        expect(buffer.value.slice(buffer.selectionStart, buffer.selectionEnd)).toBe('end');
+    });
+
+    it('should keep LF documents untouched', () => {
+        const buffer = new MemoryBuffer('one\ntwo');
+
+        new Cursor(buffer).insert('\r\nthree');
+        expect(buffer.value).toBe('one\ntwo\r\nthree');
+    });
+
+    it('should not include CR into the line text', () => {
+        const cursor = new Cursor(new MemoryBuffer('1. one\r\n2. two'));
+
+        expect(cursor.lines.map(({ text }) => text)).toEqual(['1. one', '2. two']);
+        expect(cursor.lineAt(1)!.endsAt).toBe(6);
+    });
+
+    it('should replace lines without breaking line endings', () => {
+        const buffer = new MemoryBuffer('- one\r\n- two', 0, 12);
+        const cursor = new Cursor(buffer);
+
+        cursor.replaceCurrentLines((line) => `${line.text}!`);
+        expect(buffer.value).toBe('- one!\r\n- two!');
+
+        cursor.replaceLine(2, null);
+        expect(buffer.value).toBe('- one!');
+    });
+
+    it('should move, duplicate, join and delete lines', () => {
+        expect(run(moveLineUpCommandHandler, 'one\r\ntwo\r\nthree', 6).value).toBe('two\r\none\r\nthree');
+
+        const duplicated = run(duplicateLineCommandHandler, 'one\r\ntwo', 0, 8);
+        expect(duplicated.value).toBe('one\r\ntwo\r\none\r\ntwo');
+        expect(duplicated.value.slice(duplicated.selectionStart, duplicated.selectionEnd)).toBe('one\r\ntwo');
+
+        expect(run(joinLinesCommandHandler, 'one\r\n  two', 0).value).toBe('one two');
+        expect(run(deleteLineCommandHandler, 'one\r\ntwo\r\nthree', 6).value).toBe('one\r\nthree');
+        expect(run(deleteLineCommandHandler, 'one\r\ntwo', 6).value).toBe('one');
+    });
+
+    it('should wrap code block with document line endings', () => {
+        expect(run(codeBlockCommandHandler, 'a\r\ncode', 3, 7).value).toBe('a\r\n```\r\ncode\r\n```');
+    });
+});
@@ -0,0 +1,68 @@
+import { Cursor } from '../lib/Cursor';
+
+/**
+ * Run with `npm run bench`, not a part of the regular test run
+ */
+
+const LINE_COUNTS = [1000, 20000, 100000];
+const ITERATIONS = 50;
+
+const largeDocument = (lineCount: number) =>
+    Array.from({ length: lineCount }, (_, i) => `${(i % 9) + 1}. changelog entry number ${i}`).join('\n');
+
+const measure = (name: string, fn: () => void) => {
+    const startedAt = performance.now();
+    for (let i = 0; i < ITERATIONS; i++) {
+        fn();
+    }
+    const perIteration = (performance.now() - startedAt) / ITERATIONS;
+    process.stdout.write(`${name.padEnd(60)} ${perIteration.toFixed(3)} ms/op\n`);
+};
+
+describe.each(LINE_COUNTS)('document with %i lines', (lineCount) => {
+    let textarea: HTMLTextAreaElement;
+    let cursor: Cursor;
+
+    beforeEach(() => {
+        textarea = document.createElement('textarea');
+        textarea.value = largeDocument(lineCount);
+        textarea.setSelectionRange(textarea.value.length / 2, textarea.value.length / 2);
+        cursor = new Cursor(textarea);
+    });
+
+    it('lookups', () => {
+        measure(`[${lineCount}] position + lineAt + selection`, () => {
+            cursor.lineAt(cursor.position.line.lineNumber);
+            cursor.select({ start: 10, end: textarea.value.length - 10 });
+            void cursor.selection;
+        });
+    });
+
+    it('enter press', () => {
+        measure(`[${lineCount}] enter press (insert with line break)`, () => {
+            const line = cursor.lineAt(cursor.position.line.lineNumber)!;
+            cursor.insert(`\n${line.text.slice(0, 3)}${Cursor.MARKER}`);
+        });
+    });
+
+    it('replace current lines', () => {
+        measure(`[${lineCount}] replaceCurrentLines`, () => {
+            cursor.replaceCurrentLines((line) => line.text.toUpperCase());
+        });
+    });
+
+    it('paste', () => {
+        const pasted = largeDocument(500);
+        measure(`[${lineCount}] paste of 500 lines`, () => {
+            cursor.insert(pasted);
+        });
+    });
+
+    it('external change', () => {
+        measure(`[${lineCount}] typing outside of the cursor`, () => {
+            const at = textarea.selectionStart;
+            textarea.setRangeText('x', at, at, 'end');
+            void cursor.position;
+        });
+    });
+});
@@ -0,0 +1,163 @@
+import { Cursor } from '../lib/Cursor';
+import { Line, LineIndex } from '../lib/LineIndex';
+import { diffRange } from '../lib/utils';
+
+const naiveLines = (text: string): Line[] => {
+    let startsAt = 0;
+    return text.split('\n').map((content, index, all) => {
+        // CR of CRLF is not a part of the line
+        const lineText = index < all.length - 1 ? content.replace(/\r$/, '') : content;
+        const line = { text: lineText, lineNumber: index + 1, startsAt, endsAt: startsAt + lineText.length };
+        startsAt += content.length + 1;
+        return line;
+    });
+};
+
+const largeDocument = (lineCount: number) =>
+    Array.from({ length: lineCount }, (_, i) => (i % 10 === 0 ? '' : `- changelog entry number ${i}`)).join('\n');
+
+describe('LineIndex', () => {
+    it('should index lines of the text', () => {
+        const text = 'first\n\nthird\n';
+        expect(new LineIndex(text).lines).toEqual(naiveLines(text));
+    });
+
+    it('should return null for unknown line', () => {
+        const index = new LineIndex('one\ntwo');
+
+        expect(index.line(0)).toBeNull();
+        expect(index.line(3)).toBeNull();
+        expect(index.line(1.5)).toBeNull();
+    });
+
+    it('should find line number by position', () => {
+        const index = new LineIndex('one\ntwo\n\nfour');
+
+        expect(index.lineNumberAt(0)).toBe(1);
+        expect(index.lineNumberAt(3)).toBe(1);
+        expect(index.lineNumberAt(4)).toBe(2);
+        expect(index.lineNumberAt(8)).toBe(3);
+        expect(index.lineNumberAt(9)).toBe(4);
+        expect(index.lineNumberAt(100)).toBe(4);
+    });
+
+    it('should apply edits incrementally', () => {
+        const index = new LineIndex('one\ntwo\nthree');
+
+        index.applyEdit(3, 8, ' and a half\nsecond\n');
+        expect(index.value).toBe('one and a half\nsecond\nthree');
+        expect(index.lines).toEqual(naiveLines(index.value));
+
+        index.applyEdit(0, index.value.length, '');
+        expect(index.lines).toEqual(naiveLines(''));
+    });
+
+    it('should keep unchanged lines cached', () => {
+        const index = new LineIndex('one\ntwo\nthree');
+        const first = index.line(1);
+        const last = index.line(3);
+
+        index.update('one\ntwo!\nthree');
+
+        expect(index.line(1)).toBe(first);
+        expect(index.line(3)).not.toBe(last);
+        expect(index.line(3)).toEqual({ ...last, startsAt: 9, endsAt: 14 });
+    });
+
+    it('should stay consistent with the text after random edits', () => {
+        let seed = 42;
+        const random = (max: number) => {
+            seed = (seed * 16807) % 2147483647;
+            return seed % max;
+        };
+        const pieces = ['', 'a', '\n', 'b\nc', '\n\n', 'long text'];
+        const index = new LineIndex('initial\ntext');
+
+        for (let i = 0; i < 300; i++) {
+            const start = random(index.value.length + 1);
+            const end = start + random(index.value.length - start + 1);
+            index.applyEdit(start, end, pieces[random(pieces.length)]);
+            // touch some lines to fill the cache
+            index.line(random(index.lineCount) + 1);
+
+            expect(index.lines).toEqual(naiveLines(index.value));
+        }
+    });
+
+    it('should not include CR of CRLF into lines', () => {
+        const text = 'first\r\n\r\nthird\nfourth\r';
+        const index = new LineIndex(text);
+
+        expect(index.lines).toEqual(naiveLines(text));
+        expect(index.line(1)).toEqual({ text: 'first', lineNumber: 1, startsAt: 0, endsAt: 5 });
+        expect(index.line(4)!.text).toBe('fourth\r');
+    });
+
+    it('should update line end when CRLF is split or joined', () => {
+        const index = new LineIndex('one\r\ntwo');
+        index.line(1);
+
+        index.applyEdit(3, 4, '');
+        expect(index.lines).toEqual(naiveLines('one\ntwo'));
+
+        index.applyEdit(3, 3, '\r');
+        expect(index.line(1)!.endsAt).toBe(3);
+
+        index.applyEdit(4, 4, 'x');
+        expect(index.lines).toEqual(naiveLines('one\rx\ntwo'));
+    });
+
+    it('should detect line ending by the first line break', () => {
+        expect(new LineIndex('one').lineEnding).toBe('\n');
+        expect(new LineIndex('one\ntwo\r\n').lineEnding).toBe('\n');
+        expect(new LineIndex('one\r\ntwo\n').lineEnding).toBe('\r\n');
+    });
+});
+
+describe('diffRange', () => {
+    it('should find changed region', () => {
+        expect(diffRange('hello world', 'hello big world')).toEqual({ start: 6, prevEnd: 6, nextEnd: 10 });
+        expect(diffRange('abc', 'abc')).toEqual({ start: 3, prevEnd: 3, nextEnd: 3 });
+        expect(diffRange('aaa', 'aa')).toEqual({ start: 2, prevEnd: 3, nextEnd: 2 });
+    });
+
+    it('should find changed region in large texts', () => {
+        const prev = largeDocument(5000);
+        const next = prev.slice(0, 70000) + 'changed' + prev.slice(70003);
+
+        expect(diffRange(prev, next)).toEqual({ start: 70000, prevEnd: 70003, nextEnd: 70007 });
+    });
+});
+
+describe('Cursor on large documents', () => {
+    it('should not re-index the whole document on every access', () => {
+        const textarea = document.createElement('textarea');
+        textarea.value = largeDocument(20000);
+        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+        const cursor = new Cursor(textarea);
+
+        const before = cursor.lineAt(1);
+        const split = jest.spyOn(String.prototype, 'split');
+
+        cursor.insert('\n- new entry');
+        cursor.replaceCurrentLines((line) => line.text.toUpperCase());
+
+        expect(split).not.toHaveBeenCalled();
+        expect(cursor.lineAt(1)).toBe(before);
+        expect(cursor.position.line.lineNumber).toBe(20001);
+        expect(cursor.position.line.text).toBe('- NEW ENTRY');
+
+        split.mockRestore();
+    });
+
+    it('should pick up changes made outside of the cursor', () => {
+        const textarea = document.createElement('textarea');
+        textarea.value = largeDocument(20000);
+        const cursor = new Cursor(textarea);
+        cursor.lineAt(1);
+
+        textarea.value = 'replaced\n' + textarea.value;
+
+        expect(cursor.lines).toEqual(naiveLines(textarea.value));
+    });
+});
@@ -0,0 +1,230 @@
+import { bootstrapTextareaMarkdown } from '../lib/bootstrap';
+import { Cursor } from '../lib/Cursor';
+import { orderedListCommandHandler } from '../lib/handlers';
+import { MemoryBuffer } from '../lib/TextBuffer';
+import { defaultTextareaMarkdownOptions } from '../lib/types';
+
+const renumber = (lines: string[], position = 0) => {
+    const buffer = new MemoryBuffer(lines.join('\n'), position);
+    new Cursor(buffer).renumberLists();
+    return buffer.value.split('\n');
+};
+
+describe('Cursor.renumberLists', () => {
+    it('should fix duplicates and gaps keeping the start number', () => {
+        expect(renumber(['3. a', '3. b', '7. c'])).toEqual(['3. a', '4. b', '5. c']);
+    });
+
+    it('should renumber the whole list around the position', () => {
+        const text = ['intro', '', '1. a', '   continuation', '', '1. b', '5. c', 'paragraph', '1. other', '1. list'];
+
+        expect(renumber(text, 24)).toEqual([
+            'intro',
+            '',
+            '1. a',
+            '   continuation',
+            '',
+            '2. b',
+            '3. c',
+            'paragraph',
+            '1. other',
+            '1. list',
+        ]);
+    });
+
+    it('should number nested lists separately', () => {
+        const text = ['1. a', '    1. x', '    1. y', '1. b', '    - z', '    5. w', '    5. v'];
+
+        expect(renumber(text)).toEqual(['1. a', '    1. x', '    2. y', '2. b', '    - z', '    5. w', '    6. v']);
+    });
+
+    it('should prefix hierarchical items with the parent number', () => {
+        const text = ['1. a', '    1.1. x', '    1.1. y', '1. b', '    1.1. z', '1.1. same indent', '1. c'];
+
+        expect(renumber(text)).toEqual([
+            '1. a',
+            '    1.1. x',
+            '    1.2. y',
+            '2. b',
+            '    2.1. z',
+            '2.1. same indent',
+            '3. c',
+        ]);
+    });
+
+    it('should skip code fences', () => {
+        const text = ['1. a', '```', '1. code', '```', '1. b'];
+
+        expect(renumber(text, text.join('\n').length)).toEqual(text);
+    });
+
+    it('should return false if there is nothing to renumber', () => {
+        expect(new Cursor(new MemoryBuffer('1. a\n2. b')).renumberLists()).toBe(false);
+    });
+});
+
+describe('orderedListCommandHandler', () => {
+    it('should continue numbering of the list above', () => {
+        const buffer = new MemoryBuffer('4. a\nb', 6);
+        orderedListCommandHandler({ cursor: new Cursor(buffer), options: defaultTextareaMarkdownOptions });
+
+        expect(buffer.value).toBe('4. a\n5. b');
+    });
+});
+
+describe('listRenumberExtension', () => {
+    const setup = (value: string, position: number) => {
+        const textarea = document.createElement('textarea');
+        document.body.appendChild(textarea);
+        const { dispose, trigger } = bootstrapTextareaMarkdown(textarea, {
+            options: { enableListRenumberExtension: true },
+        });
+        textarea.value = value;
+        textarea.setSelectionRange(position, position);
+
+        const cleanup = () => {
+            dispose();
+            document.body.removeChild(textarea);
+        };
+        return { textarea, trigger, cleanup };
+    };
+
+    it('should renumber after a new item in the middle', () => {
+        const { textarea, cleanup } = setup('1. a\n2. b\n3. c', 4);
+
+        textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', code: 'Enter', cancelable: true }));
+        expect(textarea.value).toBe('1. a\n2. \n3. b\n4. c');
+        expect(textarea.selectionStart).toBe(8);
+
+        cleanup();
+    });
+
+    it('should renumber after line deletion', () => {
+        const { textarea, trigger, cleanup } = setup('1. a\n2. b\n3. c', 6);
+
+        trigger('delete-line');
+        expect(textarea.value).toBe('1. a\n2. c');
+
+        cleanup();
+    });
+
+    it('should not renumber on undo and redo', () => {
+        const textarea = document.createElement('textarea');
+        document.body.appendChild(textarea);
+        textarea.value = '1. a\n2. b\n3. c';
+        const { dispose, trigger } = bootstrapTextareaMarkdown(textarea, {
+            options: { enableHistory: true, enableListRenumberExtension: true },
+        });
+
+        // native deletion
+        textarea.setRangeText('', 5, 10, 'start');
+        textarea.dispatchEvent(new Event('input', { bubbles: true }));
+        expect(textarea.value).toBe('1. a\n2. c');
+
+        trigger('undo');
+        expect(textarea.value).toBe('1. a\n3. c');
+
+        trigger('undo');
+        expect(textarea.value).toBe('1. a\n2. b\n3. c');
+
+        trigger('redo');
+        trigger('redo');
+        expect(textarea.value).toBe('1. a\n2. c');
+
+        dispose();
+        document.body.removeChild(textarea);
+    });
+
+    it('should not renumber without the option', () => {
+        const textarea = document.createElement('textarea');
+        const { dispose, trigger } = bootstrapTextareaMarkdown(textarea);
+        textarea.value = '1. a\n2. b\n3. c';
+        textarea.setSelectionRange(6, 6);
+
+        trigger('delete-line');
+        expect(textarea.value).toBe('1. a\n3. c');
+
+        dispose();
+    });
+});
+
+describe('Cursor.indentListItems', () => {
+    const indent = (lines: string[], start: number, end = start, options = {}) => {
+        const buffer = new MemoryBuffer(lines.join('\n'), start, end);
+        const result = new Cursor(buffer).indentListItems(options);
+        return { result, lines: buffer.value.split('\n'), selection: [buffer.selectionStart, buffer.selectionEnd] };
+    };
+
+    it('should nest items under the content column of the previous item', () => {
+        expect(indent(['1. a', '2. b'], 7).lines).toEqual(['1. a', '   2. b']);
+        expect(indent(['- a', '- b'], 5)).toEqual({ result: true, lines: ['- a', '  - b'], selection: [7, 7] });
+        expect(indent(['10. a', '11. b'], 8).lines).toEqual(['10. a', '    11. b']);
+        expect(indent(['-   a', '- b'], 7).lines).toEqual(['-   a', '    - b']);
+    });
+
+    it('should move continuation lines together with the item', () => {
+        const text = ['- a', '- b', '  more', '- c'];
+
+        expect(indent(text, 4, 16).lines).toEqual(['- a', '  - b', '    more', '  - c']);
+    });
+
+    it('should not handle lines which could not be nested', () => {
+        expect(indent(['- a'], 2).result).toBe(false);
+        expect(indent(['text', '- a'], 6).result).toBe(false);
+        expect(indent(['text', 'more'], 6).result).toBe(false);
+    });
+
+    it('should outdent items to the level of the parent', () => {
+        const outdent = (lines: string[], position: number) => indent(lines, position, position, { outdent: true });
+
+        expect(outdent(['1. a', '   2. b'], 10).lines).toEqual(['1. a', '2. b']);
+        expect(outdent(['- a', '  - b', '    - c'], 16).lines).toEqual(['- a', '  - b', '  - c']);
+        expect(outdent(['  - a'], 4).lines).toEqual(['- a']);
+        expect(outdent(['- a'], 2).result).toBe(false);
+    });
+
+    it('should move nested items together with the item', () => {
+        const text = ['- a', '- b', '  - c', '    more', '- d'];
+        const indented = indent(text, 5);
+
+        expect(indented.lines).toEqual(['- a', '  - b', '    - c', '      more', '- d']);
+        expect(indent(indented.lines, 7, 7, { outdent: true }).lines).toEqual(text);
+    });
+
+    it('should outdent continuation lines together with the item', () => {
+        const text = ['- a', '  - b', '    continuation'];
+
+        expect(indent(text, 8, 25, { outdent: true }).lines).toEqual(['- a', '- b', '  continuation']);
+    });
+
+    it('should cycle markers if enabled', () => {
+        const options = { cycleMarkers: true };
+        const bullets = indent(['- a', '  * b', '  * c'], 14, 14, options).lines;
+        expect(bullets).toEqual(['- a', '  * b', '    + c']);
+        expect(indent(bullets, 18, 18, { ...options, outdent: true }).lines).toEqual(['- a', '  * b', '  * c']);
+
+        const ordered = indent(['1. a', '2. b', '3. c'], 7, 7, options).lines;
+        expect(ordered).toEqual(['1. a', '   1. b', '3. c']);
+        expect(indent(ordered, 17, 17, options).lines).toEqual(['1. a', '   1. b', '   2. c']);
+        expect(indent(ordered, 10, 10, { ...options, outdent: true }).lines).toEqual(['1. a', '2. b', '3. c']);
+    });
+});
+
+describe('indentExtension', () => {
+    it('should indent list items with tab', () => {
+        const textarea = document.createElement('textarea');
+        const { dispose } = bootstrapTextareaMarkdown(textarea, { options: { cycleListMarkers: true } });
+        textarea.value = '- a\n- b';
+        textarea.setSelectionRange(7, 7);
+
+        textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'Tab', code: 'Tab', cancelable: true }));
+        expect(textarea.value).toBe('- a\n  * b');
+
+        textarea.dispatchEvent(
+            new KeyboardEvent('keydown', { key: 'Tab', code: 'Tab', shiftKey: true, cancelable: true }),
+        );
+        expect(textarea.value).toBe('- a\n- b');
+
+        dispose();
+    });
+});
@@ -0,0 +1,216 @@
+import { Cursor } from '../lib/Cursor';
+import {
+    cleanupReferencesCommandHandler,
+    footnoteCommandHandler,
+    linkReferenceCommandHandler,
+    renumberFootnotesCommandHandler,
+} from '../lib/handlers';
+import { getFootnotes, getReferenceDefinitions, getUsedReferenceLabels } from '../lib/references';
+import { MemoryBuffer } from '../lib/TextBuffer';
+import { TextBufferCommandHandlerContext, defaultTextareaMarkdownOptions } from '../lib/types';
+
+/** `^` in the text defines the cursor position, the second one defines the end of the selection */
+const createContext = (text: string) => {
+    const [before, selected, after] = text.split('^');
+    const start = before.length;
+    const end = after === undefined ? start : start + selected.length;
+    const buffer = new MemoryBuffer(text.replace(/\^/g, ''), start, end);
+    const ctx: TextBufferCommandHandlerContext = {
+        cursor: new Cursor(buffer),
+        options: defaultTextareaMarkdownOptions,
+    };
+    const selection = () => buffer.value.slice(buffer.selectionStart, buffer.selectionEnd);
+    return { ctx, buffer, selection };
+};
+
+describe('references', () => {
+    it('should find definitions outside of code', () => {
+        const cursor = new Cursor(
+            new MemoryBuffer(
+                ['[a]: https://a.com "A"', '[^1]: footnote', '```', '[b]: https://b.com', '```', '  [C d]: <c>'].join(
+                    '\n',
+                ),
+            ),
+        );
+
+        expect(getReferenceDefinitions(cursor.lines).map(({ label, url, title }) => [label, url, title])).toEqual([
+            ['a', 'https://a.com', ' "A"'],
+            ['C d', '<c>', ''],
+        ]);
+    });
+
+    it('should find used labels', () => {
+        const { ctx } = createContext(
+            ['[text][A]  [b][] [c] [inline](url)', '`[code][d]` ![img][E  f]', '[g]: https://g.com'].join('\n'),
+        );
+
+        expect(Array.from(getUsedReferenceLabels(ctx.cursor.lines))).toEqual(['a', 'b', 'c', 'e f']);
+    });
+});
+
+describe('link-reference command', () => {
+    it('should append definition to the end of the document', () => {
+        const { ctx, buffer, selection } = createContext('see ^docs^ here\n\nlast paragraph');
+
+        linkReferenceCommandHandler(ctx);
+        expect(buffer.value).toBe('see [docs][1] here\n\nlast paragraph\n\n[1]: url');
+        expect(selection()).toBe('url');
+    });
+
+    it('should add definition to the existing block with the next label', () => {
+        const { ctx, buffer } = createContext('text ^\n\n[1]: https://a.com\n[3]: https://c.com\n');
+
+        linkReferenceCommandHandler(ctx, 'https://d.com');
+        expect(buffer.value).toBe('text [example][4]\n\n[1]: https://a.com\n[3]: https://c.com\n[4]: https://d.com\n');
+        expect(buffer.selectionStart).toBe(17);
+    });
+
+    it('should reuse label of the same url', () => {
+        const { ctx, buffer } = createContext('a ^link^\n\n[docs]: https://a.com');
+
+        linkReferenceCommandHandler(ctx, 'https://a.com');
+        expect(buffer.value).toBe('a [link][docs]\n\n[docs]: https://a.com');
+    });
+
+    it('should insert definition after the link at the end of the document', () => {
+        const { ctx, buffer } = createContext('text ^');
+
+        linkReferenceCommandHandler(ctx, 'https://a.com');
+        expect(buffer.value).toBe('text [example][1]\n\n[1]: https://a.com');
+        expect(buffer.selectionStart).toBe(17);
+    });
+    it('should not split graphemes', () => {
+        const { ctx, buffer } = createContext('x \ud83d^\udc4d y');
+
+        linkReferenceCommandHandler(ctx, 'https://a.com');
+        expect(buffer.value).toBe('x [example][1]👍 y\n\n[1]: https://a.com');
+    });
+});
+
+describe('cleanup-references command', () => {
+    it('should remove unused definitions and sort the block', () => {
+        const { ctx, buffer } = createContext(
+            [
+                '[a][10] [b][2]',
+                '',
+                '[unused]: https://u.com',
+                '',
+                'text [B]',
+                '',
+                '[10]: https://a.com',
+                '[2]: https://b.com',
+                '',
+            ].join('\n'),
+        );
+
+        cleanupReferencesCommandHandler(ctx);
+        expect(buffer.value).toBe(
+            ['[a][10] [b][2]', '', 'text [B]', '', '[2]: https://b.com', '[10]: https://a.com', ''].join('\n'),
+        );
+    });
+
+    it('should gather definitions and mark duplicates', () => {
+        const { ctx, buffer } = createContext(
+            [
+                '[x][a] [y][b]',
+                '[a]: https://a.com',
+                '[b]: https://b.com',
+                '[b]: https://b.com',
+                'text',
+                '[A]: https://other.com',
+            ].join('\n'),
+        );
+
+        cleanupReferencesCommandHandler(ctx);
+        expect(buffer.value).toBe(
+            [
+                '[x][a] [y][b]',
+                'text',
+                '',
+                '[a]: https://a.com',
+                '<!-- duplicate reference: [A] -->',
+                '[A]: https://other.com',
+                '[b]: https://b.com',
+            ].join('\n'),
+        );
+
+        cleanupReferencesCommandHandler(ctx);
+        expect(buffer.value.match(/duplicate/g)).toHaveLength(1);
+    });
+});
+
+describe('footnotes', () => {
+    /** `|` in the text defines the cursor position, `^` is a part of the footnote syntax */
+    const create = (text: string) => {
+        const buffer = new MemoryBuffer(text.replace('|', ''), Math.max(text.indexOf('|'), 0));
+        const ctx: TextBufferCommandHandlerContext = {
+            cursor: new Cursor(buffer),
+            options: defaultTextareaMarkdownOptions,
+        };
+        const result = () =>
+            buffer.value.slice(0, buffer.selectionStart) + '|' + buffer.value.slice(buffer.selectionStart);
+        return { ctx, buffer, result };
+    };
+
+    it('should find references and definitions with continuation', () => {
+        const { ctx } = create(
+            ['a[^1] `[^code]` b[^note]', '', '[^1]: first [^2]', '    more', '', '[^2]: second', 'text'].join('\n'),
+        );
+        const { references, definitions } = getFootnotes(ctx.cursor.lines);
+
+        expect(references.map(({ label }) => label)).toEqual(['1', 'note', '2']);
+        expect(
+            definitions.map(({ label, fromLineNumber, toLineNumber }) => [label, fromLineNumber, toLineNumber]),
+        ).toEqual([
+            ['1', 3, 4],
+            ['2', 6, 6],
+        ]);
+    });
+
+    it('should insert footnote with the next number and move the cursor to its definition', () => {
+        const { ctx, result } = create('text| and [^2]\n\n[^2]: note');
+
+        footnoteCommandHandler(ctx);
+        expect(result()).toBe('text[^3] and [^2]\n\n[^2]: note\n[^3]: |');
+    });
+
+    it('should separate the first definition from the content', () => {
+        const { ctx, result } = create('text|');
+
+        footnoteCommandHandler(ctx);
+        expect(result()).toBe('text[^1]\n\n[^1]: |');
+    });
+
+    it('should not split graphemes', () => {
+        const { ctx, result } = create('x \ud83d|\udc4d y');
+
+        footnoteCommandHandler(ctx);
+        expect(result()).toBe('x [^1]👍 y\n\n[^1]: |');
+    });
+
+    it('should renumber footnotes in order of the first reference and remove orphans', () => {
+        const { ctx, buffer } = create(
+            [
+                'b[^3] a[^1] [^note] [^3]',
+                '',
+                '[^1]: one',
+                '[^2]: orphan',
+                '    continuation',
+                '[^3]: three',
+                '[^note]: named',
+            ].join('\n'),
+        );
+
+        renumberFootnotesCommandHandler(ctx);
+        expect(buffer.value).toBe(
+            ['b[^1] a[^2] [^note] [^1]', '', '[^2]: one', '[^1]: three', '[^note]: named'].join('\n'),
+        );
+    });
+
+    it('should remove orphan at the end with the blank line before', () => {
+        const { ctx, buffer } = create('text\n\n[^1]: orphan\n');
+
+        renumberFootnotesCommandHandler(ctx);
+        expect(buffer.value).toBe('text\n');
+    });
+});
@@ -0,0 +1,192 @@
+import { bootstrapTextareaMarkdown } from '../lib/bootstrap';
+import { Cursor } from '../lib/Cursor';
+import { parseSnippet } from '../lib/snippet';
+
+const createTextArea = (content: string, selectionStart = content.length, selectionEnd = selectionStart) => {
+    const el = document.createElement('textarea');
+    el.value = content;
+    el.setSelectionRange(selectionStart, selectionEnd);
+    document.body.appendChild(el);
+    return el;
+};
+
+const pressKey = (element: HTMLElement, key: string, options: Partial<KeyboardEventInit> = {}) => {
+    const event = new KeyboardEvent('keydown', { key, code: key, bubbles: true, cancelable: true, ...options });
+    element.dispatchEvent(event);
+    return event;
+};
+
+const selected = (textarea: HTMLTextAreaElement) =>
+    textarea.value.slice(textarea.selectionStart, textarea.selectionEnd);
+
+afterEach(() => {
+    document.body.innerHTML = '';
+});
+
+describe('parseSnippet', () => {
+    it('should parse tab stops and placeholders', () => {
+        expect(parseSnippet('[${1:text}](${2:url})$0')).toEqual({
+            text: '[text](url)',
+            tabStops: [
+                { index: 1, ranges: [{ start: 1, end: 5 }] },
+                { index: 2, ranges: [{ start: 7, end: 10 }] },
+                { index: 0, ranges: [{ start: 11, end: 11 }] },
+            ],
+        });
+    });
+
+    it('should sort tab stops by index and keep final one last', () => {
+        const { tabStops } = parseSnippet('$0 $2 ${1} $10');
+
+        expect(tabStops.map(({ index }) => index)).toEqual([1, 2, 10, 0]);
+    });
+
+    it('should collect all occurrences of the same tab stop', () => {
+        expect(parseSnippet('${1:a} $1').tabStops).toEqual([
+            {
+                index: 1,
+                ranges: [
+                    { start: 0, end: 1 },
+                    { start: 2, end: 2 },
+                ],
+            },
+        ]);
+    });
+
+    it('should parse nested placeholders', () => {
+        const { text, tabStops } = parseSnippet('${1:outer ${2:inner}}');
+
+        expect(text).toBe('outer inner');
+        expect(tabStops).toEqual([
+            { index: 1, ranges: [{ start: 0, end: 11 }] },
+            { index: 2, ranges: [{ start: 6, end: 11 }] },
+        ]);
+    });
+
+    it('should support escaping', () => {
+        expect(parseSnippet('\\$1 costs \\\\ ${1:\\}}')).toEqual({
+            text: '$1 costs \\ }',
+            tabStops: [{ index: 1, ranges: [{ start: 11, end: 12 }] }],
+        });
+    });
+
+    it('should keep text without tab stops as is', () => {
+        expect(parseSnippet('$ cost ${a}')).toEqual({ text: '$ cost ${a}', tabStops: [] });
+    });
+});
+
+describe('Cursor.insertSnippet', () => {
+    it('should replace selection and select the first tab stop', () => {
+        const textarea = createTextArea('see here', 4, 8);
+
+        new Cursor(textarea).insertSnippet('[${1:text}](${2:url})');
+
+        expect(textarea.value).toBe('see [text](url)');
+        expect(selected(textarea)).toBe('text');
+    });
+
+    it('should navigate between tab stops and finish on the final one', () => {
+        const textarea = createTextArea('');
+        const cursor = new Cursor(textarea);
+
+        cursor.insertSnippet('[${1:text}](${2:url}) $0!');
+
+        expect(cursor.nextTabStop()).toBe(true);
+        expect(selected(textarea)).toBe('url');
+        expect(cursor.previousTabStop()).toBe(true);
+        expect(selected(textarea)).toBe('text');
+        expect(cursor.nextTabStop()).toBe(true);
+        expect(cursor.nextTabStop()).toBe(true);
+        expect(textarea.selectionStart).toBe(textarea.value.length - 1);
+        expect(cursor.nextTabStop()).toBe(false);
+    });
+
+    it('should place cursor at the end of snippet without final tab stop', () => {
+        const textarea = createTextArea('');
+        const cursor = new Cursor(textarea);
+
+        cursor.insertSnippet('${1:a} b');
+        cursor.nextTabStop();
+
+        expect(textarea.selectionStart).toBe(3);
+        expect(textarea.selectionEnd).toBe(3);
+    });
+
+    it('should insert snippet without tab stops', () => {
+        const textarea = createTextArea('');
+        const cursor = new Cursor(textarea);
+
+        cursor.insertSnippet('plain');
+
+        expect(textarea.value).toBe('plain');
+        expect(textarea.selectionStart).toBe(5);
+        expect(cursor.nextTabStop()).toBe(false);
+    });
+
+    it('should select all occurrences of the tab stop', () => {
+        const textarea = createTextArea('');
+        const cursor = new Cursor(textarea);
+
+        cursor.insertSnippet('${1:a} and ${1:a}');
+
+        expect(cursor.ranges).toEqual([
+            { start: 0, end: 1 },
+            { start: 6, end: 7 },
+        ]);
+    });
+
+    it('should map tab stops through typed text', () => {
+        const textarea = createTextArea('');
+        const cursor = new Cursor(textarea);
+
+        cursor.insertSnippet('${1:a}${2:b} $0');
+        textarea.setRangeText('long text', textarea.selectionStart, textarea.selectionEnd, 'end');
+
+        cursor.nextTabStop();
+
+        expect(textarea.value).toBe('long textb ');
+        expect(selected(textarea)).toBe('b');
+    });
+
+    it('should finish the session when cursor leaves the snippet', () => {
+        const textarea = createTextArea('before ');
+        const cursor = new Cursor(textarea);
+
+        cursor.insertSnippet('${1:a} ${2:b}');
+        cursor.select({ start: 0, end: 0 });
+
+        expect(cursor.nextTabStop()).toBe(false);
+    });
+});
+
+describe('snippetExtension', () => {
+    it('should navigate with tab/shift+tab instead of indentation', () => {
+        const textarea = createTextArea('');
+        const { cursor, dispose } = bootstrapTextareaMarkdown(textarea);
+
+        cursor.insertSnippet('| ${1:a} | ${2:b} |');
+
+        const tab = pressKey(textarea, 'Tab');
+        expect(tab.defaultPrevented).toBe(true);
+        expect(textarea.value).toBe('| a | b |');
+        expect(selected(textarea)).toBe('b');
+
+        pressKey(textarea, 'Tab', { shiftKey: true });
+        expect(selected(textarea)).toBe('a');
+
+        dispose();
+    });
+
+    it('should fall back to indentation without active snippet', () => {
+        const textarea = createTextArea('text', 0);
+        const { cursor, dispose } = bootstrapTextareaMarkdown(textarea);
+
+        cursor.insertSnippet('${1:a} $0');
+        pressKey(textarea, 'Escape');
+        pressKey(textarea, 'Tab');
+
+        expect(textarea.value).toBe('    a text');
+
+        dispose();
+    });
+});
@@ -0,0 +1,256 @@
+import { bootstrapTextareaMarkdown } from '../lib/bootstrap';
+import { Cursor } from '../lib/Cursor';
+import {
+    insertTableCommandHandler,
+    tableAddColumnCommandHandler,
+    tableAddRowCommandHandler,
+    tableAlignColumnCommandHandler,
+    tableDeleteColumnCommandHandler,
+    tableDeleteRowCommandHandler,
+} from '../lib/handlers';
+import { formatTable, parseTable, splitTableRow } from '../lib/table';
+import { MemoryBuffer } from '../lib/TextBuffer';
+import { TextBufferCommandHandlerContext, defaultTextareaMarkdownOptions } from '../lib/types';
+
+/** `^` in the text defines the cursor position */
+const createContext = (text: string) => {
+    const position = text.indexOf('^');
+    const buffer = new MemoryBuffer(text.replace('^', ''), position);
+    const ctx: TextBufferCommandHandlerContext = {
+        cursor: new Cursor(buffer),
+        options: defaultTextareaMarkdownOptions,
+    };
+    const result = () => buffer.value.slice(0, buffer.selectionStart) + '^' + buffer.value.slice(buffer.selectionStart);
+    return { ctx, result };
+};
+
+describe('table', () => {
+    it('should split row with optional pipes and escaped pipes', () => {
+        expect(splitTableRow('| a | b \\| c |')).toEqual(['a', 'b \\| c']);
+        expect(splitTableRow('a|b')).toEqual(['a', 'b']);
+        expect(splitTableRow('| a | |')).toEqual(['a', '']);
+    });
+
+    it('should align cells according to the column alignment', () => {
+        const table = parseTable(['  name | count | ok', ':-|-:|:-:', 'apple | 1', '👍🏽 | 100 | yes']);
+
+        expect(formatTable(table)).toEqual([
+            '  | name  | count | ok  |',
+            '  | :---- | ----: | :-: |',
+            '  | apple |     1 |     |',
+            '  | 👍🏽     |   100 | yes |',
+        ]);
+    });
+});
+
+describe('table commands', () => {
+    it('should insert table after the paragraph', () => {
+        const { ctx, result } = createContext('some ^text\nnext');
+
+        insertTableCommandHandler(ctx, 1, 3);
+        expect(result()).toBe(
+            ['some text', '', '| ^    |     |     |', '| --- | --- | --- |', '|     |     |     |', '', 'next'].join(
+                '\n',
+            ),
+        );
+    });
+
+    it('should insert table into empty line', () => {
+        const { ctx, result } = createContext('^');
+
+        insertTableCommandHandler(ctx);
+        expect(result()).toBe(['| ^    |     |', '| --- | --- |', '|     |     |', '|     |     |'].join('\n'));
+    });
+
+    it('should add row below the current one', () => {
+        const { ctx, result } = createContext(['| a | b |', '|---|---|', '| 1 | 2^ |', '| 3 | 4 |'].join('\n'));
+
+        tableAddRowCommandHandler(ctx);
+        expect(result()).toBe(
+            ['| a   | b   |', '| --- | --- |', '| 1   | 2   |', '|     | ^    |', '| 3   | 4   |'].join('\n'),
+        );
+    });
+
+    it('should add the first row from the header', () => {
+        const { ctx, result } = createContext(['| a^ | b |', '|---|---|', '| 1 | 2 |'].join('\n'));
+
+        tableAddRowCommandHandler(ctx);
+        expect(result()).toBe(['| a   | b   |', '| --- | --- |', '| ^    |     |', '| 1   | 2   |'].join('\n'));
+    });
+
+    it('should delete the current row', () => {
+        const { ctx, result } = createContext(['a | b', '--|--', '1 | 2', '3 | 4^'].join('\n'));
+
+        tableDeleteRowCommandHandler(ctx);
+        expect(result()).toBe(['| a   | b   |', '| --- | --- |', '| 1   | ^2   |'].join('\n'));
+    });
+
+    it('should not delete the header', () => {
+        const text = ['| a^ | b |', '|---|---|'].join('\n');
+        const { ctx, result } = createContext(text);
+
+        tableDeleteRowCommandHandler(ctx);
+        expect(result()).toBe(text);
+    });
+
+    it('should add and delete columns', () => {
+        const { ctx, result } = createContext(['| a^ | b |', '|:--|--:|', '| 1 | 2 |'].join('\n'));
+
+        tableAddColumnCommandHandler(ctx);
+        expect(result()).toBe(['| a   | ^    |   b |', '| :-- | --- | --: |', '| 1   |     |   2 |'].join('\n'));
+
+        tableDeleteColumnCommandHandler(ctx);
+        tableDeleteColumnCommandHandler(ctx);
+        expect(result()).toBe(['| ^a   |', '| :-- |', '| 1   |'].join('\n'));
+
+        tableDeleteColumnCommandHandler(ctx);
+        expect(result()).toBe(['| ^a   |', '| :-- |', '| 1   |'].join('\n'));
+    });
+
+    it('should align the column', () => {
+        const { ctx, result } = createContext(['| a | b |', '|---|---|', '| 1 | 22^22 |'].join('\n'));
+
+        tableAlignColumnCommandHandler(ctx, 'center');
+        expect(result()).toBe(['| a   |  b   |', '| --- | :--: |', '| 1   | ^2222 |'].join('\n'));
+
+        tableAlignColumnCommandHandler(ctx);
+        expect(result()).toBe(['| a   |    b |', '| --- | ---: |', '| 1   | ^2222 |'].join('\n'));
+    });
+
+    it('should keep the list marker and blockquote markers of the rows', () => {
+        const listed = createContext(['- | a | b^ |', '  |---|---|', '- next'].join('\n'));
+
+        tableAddRowCommandHandler(listed.ctx);
+        expect(listed.result()).toBe(['- | a   | b   |', '  | --- | --- |', '  |     | ^    |', '- next'].join('\n'));
+
+        const quoted = createContext(['> | a | b |', '> |---|---|', '> | 1^ | 2 |'].join('\n'));
+
+        tableAddRowCommandHandler(quoted.ctx);
+        expect(quoted.result()).toBe(
+            ['> | a   | b   |', '> | --- | --- |', '> | 1   | 2   |', '> | ^    |     |'].join('\n'),
+        );
+    });
+
+    it('should do nothing outside of tables', () => {
+        const { ctx, result } = createContext('a | b^');
+
+        tableAddRowCommandHandler(ctx);
+        expect(result()).toBe('a | b^');
+    });
+});
+
+describe('tableExtension', () => {
+    const setup = (text: string) => {
+        const textarea = document.createElement('textarea');
+        document.body.appendChild(textarea);
+        const { dispose } = bootstrapTextareaMarkdown(textarea);
+        const position = text.indexOf('^');
+        textarea.value = text.replace('^', '');
+        textarea.setSelectionRange(position, position);
+
+        const press = (key: string, shiftKey = false) =>
+            textarea.dispatchEvent(new KeyboardEvent('keydown', { key, code: key, shiftKey, cancelable: true }));
+        const selected = () => textarea.value.slice(textarea.selectionStart, textarea.selectionEnd);
+        const cleanup = () => {
+            dispose();
+            document.body.removeChild(textarea);
+        };
+
+        return { textarea, press, selected, cleanup };
+    };
+
+    it('should move between cells with tab and shift+tab', () => {
+        const { textarea, press, selected, cleanup } = setup(['| a^ | bb |', '|-|-|', '| 1 | 2 |'].join('\n'));
+
+        press('Tab');
+        expect(textarea.value).toBe(['| a   | bb  |', '| --- | --- |', '| 1   | 2   |'].join('\n'));
+        expect(selected()).toBe('bb');
+
+        press('Tab');
+        expect(selected()).toBe('1');
+
+        press('Tab', true);
+        press('Tab', true);
+        expect(selected()).toBe('a');
+
+        press('Tab', true);
+        expect(selected()).toBe('a');
+
+        cleanup();
+    });
+
+    it('should append row on tab in the last cell', () => {
+        const { textarea, press, cleanup } = setup(['| a | b |', '|---|---|', '| 1 | 2^ |'].join('\n'));
+
+        press('Tab');
+        expect(textarea.value).toBe(['| a   | b   |', '| --- | --- |', '| 1   | 2   |', '|     |     |'].join('\n'));
+        expect(textarea.selectionStart).toBe(textarea.value.length - 11);
+
+        cleanup();
+    });
+
+    it('should add row on enter in the last row only', () => {
+        const text = ['| a | b |', '|---|---|', '| 1^ | 2 |', '| 3 | 4 |', '', 'text'].join('\n');
+        const { textarea, press, selected, cleanup } = setup(text);
+
+        press('Enter');
+        expect(textarea.value).toBe(text.replace('^', ''));
+
+        textarea.setSelectionRange(34, 34);
+        press('Enter');
+        expect(textarea.value).toBe(
+            ['| a   | b   |', '| --- | --- |', '| 1   | 2   |', '| 3   | 4   |', '|     |     |', '', 'text'].join(
+                '\n',
+            ),
+        );
+        expect(textarea.selectionStart).toBe(58);
+        expect(selected()).toBe('');
+
+        cleanup();
+    });
+
+    it('should navigate table nested in a list item', () => {
+        const { textarea, press, selected, cleanup } = setup(['- | a^ | b |', '  |---|---|', '  | 1 | 2 |'].join('\n'));
+
+        press('Tab');
+        expect(textarea.value).toBe(['- | a   | b   |', '  | --- | --- |', '  | 1   | 2   |'].join('\n'));
+        expect(selected()).toBe('b');
+
+        press('Tab');
+        expect(selected()).toBe('1');
+
+        textarea.setSelectionRange(textarea.value.length - 2, textarea.value.length - 2);
+        press('Enter');
+        expect(textarea.value).toBe(
+            ['- | a   | b   |', '  | --- | --- |', '  | 1   | 2   |', '  |     |     |'].join('\n'),
+        );
+
+        cleanup();
+    });
+
+    it('should not merge paragraph line with a pipe into the table below', () => {
+        const text = ['a | b paragraph', '| x | y |', '|---|---|', '| 1^ | 2 |'].join('\n');
+        const { textarea, press, selected, cleanup } = setup(text);
+
+        press('Tab');
+        expect(textarea.value).toBe(['a | b paragraph', '| x   | y   |', '| --- | --- |', '| 1   | 2   |'].join('\n'));
+        expect(selected()).toBe('2');
+
+        press('Tab', true);
+        press('Tab', true);
+        press('Tab', true);
+        expect(selected()).toBe('x');
+
+        cleanup();
+    });
+
+    it('should keep indentation of selected lines', () => {
+        const { textarea, press, cleanup } = setup('| a | b |\n|---|---|');
+        textarea.setSelectionRange(0, 12);
+
+        press('Tab');
+        expect(textarea.value).toBe('    | a | b |\n    |---|---|');
+
+        cleanup();
+    });
+});
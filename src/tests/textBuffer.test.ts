@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import { bootstrapTextBuffer } from '../lib/bootstrap';
+import { Cursor } from '../lib/Cursor';
+import { MemoryBuffer } from '../lib/TextBuffer';
+
+describe('MemoryBuffer', () => {
+    it('should place cursor at the end of value by default', () => {
+        const buffer = new MemoryBuffer('hello');
+
+        expect(buffer.selectionStart).toBe(5);
+        expect(buffer.selectionEnd).toBe(5);
+    });
+
+    it('should replace range and move cursor to the end of inserted text', () => {
+        const buffer = new MemoryBuffer('hello world', 0, 5);
+
+        buffer.replaceRange(0, 5, 'bye');
+
+        expect(buffer.value).toBe('bye world');
+        expect(buffer.selectionStart).toBe(3);
+        expect(buffer.selectionEnd).toBe(3);
+    });
+
+    it('should clamp selection range', () => {
+        const buffer = new MemoryBuffer('hello');
+
+        buffer.setSelectionRange(-1, 10, 'forward');
+
+        expect(buffer.selectionStart).toBe(0);
+        expect(buffer.selectionEnd).toBe(5);
+        expect(buffer.selectionDirection).toBe('forward');
+    });
+});
+
+describe('Cursor with MemoryBuffer', () => {
+    it('should wrap selection', () => {
+        const buffer = new MemoryBuffer('hello world', 6, 11);
+
+        new Cursor(buffer).wrap('**');
+
+        expect(buffer.value).toBe('hello **world**');
+        expect(buffer.selectionStart).toBe(8);
+        expect(buffer.selectionEnd).toBe(13);
+    });
+
+    it('should replace text', () => {
+        const buffer = new MemoryBuffer('hello world');
+
+        new Cursor(buffer).replace('world', 'there');
+
+        expect(buffer.value).toBe('hello there');
+    });
+});
+
+describe('bootstrapTextBuffer', () => {
+    it('should trigger built-in commands without DOM', () => {
+        const buffer = new MemoryBuffer('first\nsecond', 0, 12);
+        const { trigger } = bootstrapTextBuffer(buffer);
+
+        trigger('ordered-list');
+        expect(buffer.value).toBe('1. first\n2. second');
+
+        buffer.setSelectionRange(3, 8);
+        trigger('bold');
+        expect(buffer.value).toBe('1. **first**\n2. second');
+    });
+
+    it('should pass context without textarea to custom commands', () => {
+        const handler = jest.fn();
+        const { trigger, cursor } = bootstrapTextBuffer(new MemoryBuffer(), {
+            commands: [{ name: 'custom', handler }],
+        });
+
+        trigger('custom', 'arg');
+
+        expect(handler).toHaveBeenCalledWith(
+            { textarea: undefined, keyEvent: undefined, options: expect.any(Object), cursor },
+            'arg',
+        );
+    });
+
+    it('should respect options', () => {
+        const buffer = new MemoryBuffer('');
+        const { trigger } = bootstrapTextBuffer(buffer, { options: { preferredBoldSyntax: '__' } });
+
+        trigger('bold');
+
+        expect(buffer.value).toBe('__bold__');
+    });
+});